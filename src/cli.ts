@@ -0,0 +1,623 @@
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { Memori } from "./core/memory";
+import { SqliteVecStore } from "./stores/sqlite";
+import { PostgresVecStore } from "./stores/postgres";
+import { GoogleGenAIEmbedding } from "./embeddings/google";
+import { OpenAIEmbedding } from "./embeddings/openai";
+import { ConfigurationError, EmbeddingMismatchError } from "./core/errors";
+import { ExportSink, ImportSource } from "./core/archive";
+import { Logger } from "./core/logger";
+import { MemoriMcpServer, serveStdio } from "./mcp";
+import {
+  DistanceMetric,
+  EmbeddingProvider,
+  ImportConflictPolicy,
+  MemoryFilter,
+  MemoryRecord,
+  SearchMode,
+  VectorStore,
+} from "./core/types";
+
+/**
+ * Streams and environment used by the CLI (replaceable in tests).
+ */
+export interface CliIO {
+  stdout: ExportSink;
+  stderr: { write(chunk: string): unknown };
+  stdin: ImportSource;
+  env: Record<string, string | undefined>;
+}
+
+const USAGE = `Usage: memori <command> [options]
+
+Commands:
+  stats                     Number of memories per entity, embedding model and schema version
+  list                      List memories, oldest first (--limit, --cursor)
+  search <query>            Search memories (--limit, --mode vector|lexical|hybrid)
+  show <id>                 Show a memory with its metadata
+  delete <id>               Delete a memory
+  delete --filter <json>    Delete the matching memories (dry run unless --yes)
+  export [file]             Export memories as JSON Lines (stdout by default, --include-embeddings)
+  import [file]             Import a JSON Lines export (stdin by default, --reembed, --on-conflict)
+  migrate                   Apply pending schema migrations (--dry-run)
+  reembed                   Re-embed all memories with the provider of --api-key (--batch-size)
+  mcp                       Serve the memories to MCP clients over stdio (--entity, --process, --session set the default scope)
+
+Options:
+  --db <path|url>           SQLite file or Postgres connection string (default: $MEMORI_DB or memori.db)
+  --table <name>            Postgres table name (default: memories)
+  --schema <name>           Postgres schema
+  --dimension <n>           Vector dimension (default: detected from the database)
+  --metric <metric>         Distance metric: cosine, l2 or inner_product
+  --api-key <key>           Embedding API key (default: $MEMORI_API_KEY), used by search, import and reembed
+  --model <name>            Embedding model of the API key's provider
+  --entity <id>             Only memories of this entity
+  --process <id>            Only memories of this process
+  --session <id>            Only memories of this session
+  --filter <json>           Metadata filter, e.g. '{"topic": "billing"}'
+  --json                    Machine-readable output
+  -h, --help                Show this help
+`;
+
+const OPTIONS = {
+  db: { type: "string" },
+  table: { type: "string" },
+  schema: { type: "string" },
+  dimension: { type: "string" },
+  metric: { type: "string" },
+  "api-key": { type: "string" },
+  model: { type: "string" },
+  entity: { type: "string" },
+  process: { type: "string" },
+  session: { type: "string" },
+  filter: { type: "string" },
+  limit: { type: "string" },
+  cursor: { type: "string" },
+  mode: { type: "string" },
+  "include-embeddings": { type: "boolean" },
+  reembed: { type: "boolean" },
+  "on-conflict": { type: "string" },
+  "batch-size": { type: "string" },
+  "dry-run": { type: "boolean" },
+  yes: { type: "boolean" },
+  json: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type CliOptions = Partial<Record<keyof typeof OPTIONS, any>>;
+
+interface CommandContext {
+  memori: Memori;
+  store: VectorStore;
+  args: string[];
+  options: CliOptions;
+  io: CliIO;
+}
+
+interface Command {
+  run(context: CommandContext): Promise<void>;
+  /** Requires an embedding provider (--api-key) */
+  embeds?: boolean;
+  /** May create a new database */
+  creates?: boolean;
+  /** Opens the store without initializing (migrating) it */
+  skipInit?: boolean;
+}
+
+/**
+ * Runs the `memori` command line tool.
+ * @param argv - Arguments, without the node and script paths.
+ * @returns The exit code: 0 on success, 1 on errors, 2 on invalid usage.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = processIO()
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: OPTIONS,
+      allowPositionals: true,
+    });
+  } catch (e: any) {
+    io.stderr.write(`${e.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values: options, positionals } = parsed;
+  const [name, ...args] = positionals;
+  if (options.help || !name) {
+    (options.help ? io.stdout : io.stderr).write(USAGE);
+    return options.help ? 0 : 2;
+  }
+  const command = COMMANDS[name];
+  if (!command) {
+    io.stderr.write(`Unknown command '${name}'\n\n${USAGE}`);
+    return 2;
+  }
+
+  let store: VectorStore | undefined;
+  try {
+    const logger = new StderrLogger(io);
+    const apiKey = options["api-key"] || io.env.MEMORI_API_KEY;
+    if (command.embeds && !apiKey) {
+      throw new ConfigurationError(
+        `'${name}' needs an embedding provider: pass --api-key or set MEMORI_API_KEY`
+      );
+    }
+
+    store = await openStore(options, command, io, logger);
+    const memori = new Memori({
+      vectorStore: store,
+      embedding: apiKey ? providerFromKey(apiKey, options.model) : NO_EMBEDDING,
+      logger,
+    });
+    await command.run({ memori, store, args, options, io });
+    return 0;
+  } catch (e: any) {
+    io.stderr.write(`Error: ${e.message}\n`);
+    return 1;
+  } finally {
+    await store?.close().catch(() => {});
+  }
+}
+
+const COMMANDS: Record<string, Command> = {
+  stats: {
+    async run({ store, options, io }) {
+      const entities: Record<string, number> = {};
+      let cursor: string | null = null;
+      do {
+        const page = await store.list(filterFrom(options), cursor, 1000);
+        for (const memory of page.items) {
+          const entity = memory.metadata?.entityId || "(none)";
+          entities[entity] = (entities[entity] || 0) + 1;
+        }
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      const stats = {
+        database: redact(databaseOf(options, io)),
+        memories: Object.values(entities).reduce((sum, n) => sum + n, 0),
+        entities,
+        embedding: store.getEmbeddingInfo
+          ? await store.getEmbeddingInfo()
+          : null,
+        schemaVersion: store.migrate
+          ? (await store.migrate({ dryRun: true })).fromVersion
+          : null,
+      };
+
+      if (options.json) return printJson(io, stats);
+      const model = stats.embedding;
+      print(io, `Database:       ${stats.database}`);
+      print(io, `Schema version: ${stats.schemaVersion ?? "unknown"}`);
+      print(
+        io,
+        `Embedding:      ${
+          model
+            ? `${model.provider}${model.model ? ` (${model.model})` : ""}, ${
+                model.dimension
+              } dimensions`
+            : "not recorded"
+        }`
+      );
+      print(io, `Memories:       ${stats.memories}`);
+      for (const [entity, count] of Object.entries(entities).sort(
+        (a, b) => b[1] - a[1]
+      )) {
+        print(io, `  ${entity}: ${count}`);
+      }
+    },
+  },
+
+  list: {
+    async run({ memori, options, io }) {
+      const page = await memori.listMemories(
+        filterFrom(options),
+        options.cursor,
+        integerOption(options.limit, "limit") ?? 20
+      );
+      if (options.json) {
+        return printJson(io, {
+          items: page.items.map(withoutEmbedding),
+          nextCursor: page.nextCursor,
+        });
+      }
+      for (const memory of page.items) print(io, summaryLine(memory));
+      if (page.nextCursor) print(io, `(more: --cursor ${page.nextCursor})`);
+    },
+  },
+
+  search: {
+    embeds: true,
+    async run({ memori, args, options, io }) {
+      const query = args.join(" ");
+      if (!query) throw new ConfigurationError("Usage: memori search <query>");
+      const mode = options.mode as SearchMode | undefined;
+      if (mode && !["vector", "lexical", "hybrid"].includes(mode)) {
+        throw new ConfigurationError(`Unknown search mode '${mode}'`);
+      }
+      await memori.config.storage.build();
+
+      const filter = filterFrom(options);
+      const results = await memori.search(
+        query,
+        integerOption(options.limit, "limit") ?? 5,
+        {
+          mode,
+          filter: filter.metadata,
+          scope: {
+            entityId: filter.entityId,
+            processId: filter.processId,
+            sessionId: filter.sessionId,
+          },
+        }
+      );
+
+      if (options.json) return printJson(io, results);
+      for (const result of results) {
+        const similarity =
+          result.similarity !== undefined ? result.similarity.toFixed(3) : "-";
+        print(io, `${similarity}  ${summaryLine(result)}`);
+      }
+    },
+  },
+
+  show: {
+    async run({ memori, args, options, io }) {
+      const [id] = args;
+      if (!id) throw new ConfigurationError("Usage: memori show <id>");
+      const memory = await memori.getMemory(id);
+      if (!memory) throw new ConfigurationError(`Memory ${id} not found`);
+
+      if (options.json) {
+        return printJson(io, {
+          ...withoutEmbedding(memory),
+          dimension: memory.embedding.length,
+        });
+      }
+      print(io, `ID:      ${memory.id}`);
+      print(io, `Content: ${memory.content}`);
+      print(io, `Vector:  ${memory.embedding.length} dimensions`);
+      print(io, "Metadata:");
+      for (const [key, value] of Object.entries(memory.metadata || {})) {
+        print(io, `  ${key}: ${JSON.stringify(value)}`);
+      }
+    },
+  },
+
+  delete: {
+    async run({ store, args, options, io }) {
+      const [id] = args;
+      let ids: string[];
+      if (id) {
+        if (!(await store.get(id))) {
+          throw new ConfigurationError(`Memory ${id} not found`);
+        }
+        ids = [id];
+      } else {
+        const filter = filterFrom(options);
+        if (Object.values(filter).every((value) => value === undefined)) {
+          throw new ConfigurationError(
+            "Usage: memori delete <id>, or delete --filter/--entity/--process/--session to delete matching memories"
+          );
+        }
+        ids = [];
+        let cursor: string | null = null;
+        do {
+          const page = await store.list(filter, cursor, 1000);
+          ids.push(...page.items.map((memory) => memory.id));
+          cursor = page.nextCursor;
+        } while (cursor);
+      }
+
+      const dryRun = !id && !options.yes;
+      if (!dryRun) {
+        for (const memoryId of ids) await store.delete(memoryId);
+      }
+      if (options.json)
+        return printJson(io, { deleted: dryRun ? [] : ids, dryRun });
+      print(
+        io,
+        dryRun
+          ? `Would delete ${ids.length} memories (pass --yes to delete them)`
+          : `Deleted ${ids.length} memories`
+      );
+    },
+  },
+
+  export: {
+    async run({ memori, args, options, io }) {
+      const [file] = args;
+      const sink = file && file !== "-" ? fs.createWriteStream(file) : null;
+      const report = await memori.export(sink || io.stdout, {
+        filter: filterFrom(options),
+        includeEmbeddings: options["include-embeddings"],
+      });
+      if (sink) {
+        await new Promise<void>((resolve, reject) =>
+          sink.end((err?: Error | null) => (err ? reject(err) : resolve()))
+        );
+      }
+
+      // Stdout carries the export itself
+      const out = sink ? io.stdout : io.stderr;
+      if (options.json) {
+        out.write(`${JSON.stringify(report)}\n`);
+      } else {
+        out.write(
+          `Exported ${report.exported} memories${file ? ` to ${file}` : ""}\n`
+        );
+      }
+    },
+  },
+
+  import: {
+    embeds: true,
+    creates: true,
+    async run({ memori, args, options, io }) {
+      const [file] = args;
+      const onConflict = options["on-conflict"] as ImportConflictPolicy;
+      if (
+        onConflict &&
+        !["skip", "overwrite", "duplicate"].includes(onConflict)
+      ) {
+        throw new ConfigurationError(`Unknown conflict policy '${onConflict}'`);
+      }
+      await memori.config.storage.build();
+
+      const report = await memori.import(
+        file && file !== "-" ? fs.createReadStream(file) : io.stdin,
+        {
+          reembed: options.reembed,
+          onConflict,
+          batchSize: integerOption(options["batch-size"], "batch-size"),
+        }
+      );
+      if (options.json) return printJson(io, report);
+      print(
+        io,
+        `Imported ${report.imported} memories (${report.overwritten} overwritten, ${report.skipped} skipped, ${report.reembedded} embedded)`
+      );
+    },
+  },
+
+  migrate: {
+    creates: true,
+    skipInit: true,
+    async run({ memori, options, io }) {
+      const report = await memori.config.storage.migrate({
+        dryRun: options["dry-run"],
+      });
+      if (options.json) return printJson(io, report);
+      if (report.migrations.length === 0) {
+        print(io, `Schema is up to date (version ${report.fromVersion})`);
+      }
+      for (const m of report.migrations) {
+        print(
+          io,
+          `${report.dryRun ? "Pending" : "Applied"} migration ${m.version}: ${
+            m.description
+          }`
+        );
+      }
+    },
+  },
+
+  reembed: {
+    embeds: true,
+    async run({ memori, options, io }) {
+      const apiKey = options["api-key"] || io.env.MEMORI_API_KEY;
+      const report = await memori.reembed({
+        provider: providerFromKey(apiKey, options.model),
+        batchSize: integerOption(options["batch-size"], "batch-size"),
+        onProgress: (completed, total) => {
+          if (!options.json)
+            io.stderr.write(`Re-embedded ${completed}/${total}\n`);
+        },
+      });
+      if (options.json) return printJson(io, report);
+      print(
+        io,
+        `Re-embedded ${report.reembedded} memories with ${report.info.provider}${
+          report.info.model ? ` (${report.info.model})` : ""
+        }, ${report.info.dimension} dimensions`
+      );
+    },
+  },
+
+  mcp: {
+    embeds: true,
+    creates: true,
+    async run({ memori, options, io }) {
+      await memori.config.storage.build();
+      // stdout carries the protocol, logs go to stderr
+      await serveStdio(
+        new MemoriMcpServer(memori, {
+          scope: {
+            entityId: options.entity,
+            processId: options.process,
+            sessionId: options.session,
+          },
+        }),
+        io.stdin,
+        io.stdout
+      );
+    },
+  },
+};
+
+/**
+ * Opens the vector store of `--db`.
+ * Without `--dimension`, the dimension of an existing vector table is adopted.
+ */
+async function openStore(
+  options: CliOptions,
+  command: Command,
+  io: CliIO,
+  logger: Logger
+): Promise<VectorStore> {
+  const db = databaseOf(options, io);
+  const dimension = integerOption(options.dimension, "dimension");
+  const metric = options.metric as DistanceMetric | undefined;
+  if (metric && !["cosine", "l2", "inner_product"].includes(metric)) {
+    throw new ConfigurationError(`Unknown distance metric '${metric}'`);
+  }
+
+  const postgres = /^postgres(ql)?:\/\//.test(db);
+  if (
+    !postgres &&
+    !command.creates &&
+    db !== ":memory:" &&
+    !fs.existsSync(db)
+  ) {
+    throw new ConfigurationError(`Database file not found: ${db}`);
+  }
+  const create = (dim?: number): VectorStore =>
+    postgres
+      ? new PostgresVecStore(db, {
+          tableName: options.table,
+          schema: options.schema,
+          dimension: dim,
+          metric,
+        })
+      : new SqliteVecStore(db, logger, dim, metric);
+
+  const store = create(dimension);
+  if (command.skipInit) return store;
+  try {
+    await store.init();
+    return store;
+  } catch (e) {
+    await store.close().catch(() => {});
+    const existing =
+      e instanceof EmbeddingMismatchError ? e.stored?.dimension : undefined;
+    if (dimension !== undefined || !existing) throw e;
+
+    const detected = create(existing);
+    await detected.init();
+    return detected;
+  }
+}
+
+/**
+ * Creates the embedding provider of an API key (detected from its prefix, like `Memori`).
+ */
+function providerFromKey(apiKey: string, model?: string): EmbeddingProvider {
+  if (apiKey.startsWith("AIza")) {
+    return new GoogleGenAIEmbedding({ apiKey, model });
+  }
+  if (apiKey.startsWith("sk-")) {
+    return new OpenAIEmbedding({ apiKey, model });
+  }
+  throw new ConfigurationError(
+    "Unknown API key format: expected a Google (AIza...) or OpenAI (sk-...) key"
+  );
+}
+
+/**
+ * Stands in for the embedding provider in commands that don't embed anything.
+ */
+const NO_EMBEDDING: EmbeddingProvider = {
+  async embed() {
+    throw new ConfigurationError(
+      "This command needs an embedding provider: pass --api-key or set MEMORI_API_KEY"
+    );
+  },
+};
+
+/**
+ * Builds the store filter from --entity, --process, --session and --filter.
+ */
+function filterFrom(options: CliOptions): MemoryFilter {
+  let metadata;
+  if (options.filter) {
+    try {
+      metadata = JSON.parse(options.filter);
+    } catch (e) {
+      throw new ConfigurationError(
+        `--filter is not valid JSON: ${options.filter}`
+      );
+    }
+  }
+  return {
+    entityId: options.entity,
+    processId: options.process,
+    sessionId: options.session,
+    metadata,
+  };
+}
+
+function databaseOf(options: CliOptions, io: CliIO): string {
+  return options.db || io.env.MEMORI_DB || "memori.db";
+}
+
+/**
+ * Hides the password of a connection string.
+ */
+function redact(db: string): string {
+  return db.replace(/^(postgres(?:ql)?:\/\/[^:/@]+:)[^@]*@/, "$1***@");
+}
+
+function integerOption(
+  value: string | undefined,
+  name: string
+): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new ConfigurationError(
+      `--${name} must be a positive integer, got '${value}'`
+    );
+  }
+  return number;
+}
+
+function withoutEmbedding({ embedding, ...memory }: MemoryRecord) {
+  return memory;
+}
+
+function summaryLine(memory: MemoryRecord): string {
+  const content = memory.content.replace(/\s+/g, " ");
+  return [
+    memory.id,
+    memory.metadata?.created_at ?? "-",
+    memory.metadata?.entityId ?? "-",
+    content.length > 80 ? `${content.slice(0, 77)}...` : content,
+  ].join("  ");
+}
+
+function print(io: CliIO, line: string): void {
+  io.stdout.write(`${line}\n`);
+}
+
+function printJson(io: CliIO, value: unknown): void {
+  io.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Sends warnings and errors to stderr, so stdout only carries command output.
+ */
+class StderrLogger implements Logger {
+  constructor(private io: CliIO) {}
+  debug(): void {}
+  info(): void {}
+  warn(message: string, ...args: any[]): void {
+    this.io.stderr.write(`[WARN] ${[message, ...args].join(" ")}\n`);
+  }
+  error(message: string, ...args: any[]): void {
+    this.io.stderr.write(`[ERROR] ${[message, ...args].join(" ")}\n`);
+  }
+}
+
+function processIO(): CliIO {
+  return {
+    stdout: process.stdout,
+    stderr: process.stderr,
+    stdin: process.stdin,
+    env: process.env,
+  };
+}
@@ -0,0 +1,142 @@
+import { EmbeddingInfo, MemoryExportRecord, MemoryRecord } from "./types";
+import { ImportError } from "./errors";
+
+/**
+ * A stream memories are exported to, e.g. `fs.createWriteStream("memories.jsonl")` or `process.stdout`.
+ */
+export interface ExportSink {
+  write(chunk: string): boolean;
+  once(event: "drain", listener: () => void): unknown;
+}
+
+/**
+ * A source of JSONL text, e.g. `fs.createReadStream("memories.jsonl")` or any async iterable of chunks.
+ */
+export type ImportSource = AsyncIterable<string | Uint8Array>;
+
+/**
+ * Converts a stored memory to its portable representation.
+ * @param model - The model of the vector. The vector is only exported if set.
+ */
+export function toExportRecord(
+  record: MemoryRecord,
+  model?: EmbeddingInfo | null
+): MemoryExportRecord {
+  const { created_at, ...metadata } = record.metadata || {};
+  const exported: MemoryExportRecord = {
+    id: record.id,
+    content: record.content,
+    metadata,
+    created_at: isoTimestamp(created_at),
+  };
+  if (model && record.embedding.length > 0) {
+    exported.embedding = record.embedding;
+    exported.embedding_model = model;
+  }
+  return exported;
+}
+
+/**
+ * Normalizes a stored timestamp to ISO 8601 (UTC).
+ * SQLite's CURRENT_TIMESTAMP format (`YYYY-MM-DD HH:MM:SS`) is UTC without a zone designator.
+ */
+export function isoTimestamp(value: unknown): string | null {
+  if (!value) return null;
+  if (value instanceof Date) return value.toISOString();
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(text)) {
+    return `${text.replace(" ", "T")}Z`;
+  }
+  return text;
+}
+
+/**
+ * Parses and validates one line of an export.
+ * @param lineNumber - Used in error messages.
+ * @throws ImportError if the line is not a valid memory record.
+ */
+export function parseExportRecord(
+  line: string,
+  lineNumber: number
+): MemoryExportRecord {
+  let record: any;
+  try {
+    record = JSON.parse(line);
+  } catch (e) {
+    throw new ImportError(`Line ${lineNumber} is not valid JSON`, lineNumber);
+  }
+
+  if (
+    !record ||
+    typeof record !== "object" ||
+    typeof record.content !== "string"
+  ) {
+    throw new ImportError(
+      `Line ${lineNumber} is not a memory record (missing 'content')`,
+      lineNumber
+    );
+  }
+  if (
+    record.embedding !== undefined &&
+    (!Array.isArray(record.embedding) ||
+      record.embedding.some((v: any) => typeof v !== "number"))
+  ) {
+    throw new ImportError(
+      `Line ${lineNumber} has an invalid 'embedding' (expected an array of numbers)`,
+      lineNumber
+    );
+  }
+
+  return {
+    id: record.id === undefined || record.id === null ? "" : String(record.id),
+    content: record.content,
+    metadata:
+      record.metadata && typeof record.metadata === "object"
+        ? record.metadata
+        : {},
+    created_at: record.created_at ?? null,
+    embedding: record.embedding,
+    embedding_model: record.embedding_model,
+  };
+}
+
+/**
+ * Splits a stream of text chunks into non-empty lines, numbered from 1.
+ */
+export async function* readLines(
+  source: ImportSource
+): AsyncGenerator<{ line: string; number: number }> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let number = 0;
+
+  for await (const chunk of source) {
+    buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      number++;
+      if (line) yield { line, number };
+    }
+  }
+
+  buffer += decoder.decode();
+  number++;
+  if (buffer.trim()) yield { line: buffer.trim(), number };
+}
+
+/**
+ * Writes a chunk, waiting for the stream to drain when its buffer is full.
+ */
+export async function writeChunk(
+  sink: ExportSink,
+  chunk: string
+): Promise<void> {
+  if (!sink.write(chunk)) {
+    await new Promise<void>((resolve) => sink.once("drain", resolve));
+  }
+}
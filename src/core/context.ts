@@ -0,0 +1,114 @@
+import { ContextOptions, MemoryResult, Tokenizer } from "./types";
+import { isoTimestamp } from "./archive";
+
+const DEFAULT_HEADER =
+  "Use the following memory context to answer the user if relevant:";
+
+/**
+ * Estimates token counts at 4 characters per token (a common average for English text).
+ */
+export const estimateTokens: Tokenizer = (text) => Math.ceil(text.length / 4);
+
+/**
+ * Context injected into an LLM call, with the memories it contains.
+ */
+export interface BuiltContext {
+  /** The context text, or "" when no memory fits */
+  text: string;
+  memories: MemoryResult[];
+}
+
+/**
+ * Assembles retrieved memories into the context injected into LLM calls:
+ * drops near-duplicates, keeps the most relevant memories that fit the token budget,
+ * orders them and renders them with the header and line templates.
+ */
+export class ContextBuilder {
+  /** Number of memories to retrieve per query */
+  public readonly topK: number;
+  private options: ContextOptions;
+
+  constructor(options: ContextOptions = {}) {
+    this.options = options;
+    this.topK = Math.max(1, options.topK ?? 5);
+  }
+
+  /**
+   * @param results - Search results, most relevant first.
+   */
+  build(results: MemoryResult[]): BuiltContext {
+    const tokenizer = this.options.tokenizer || estimateTokens;
+    const header = this.options.header ?? DEFAULT_HEADER;
+    const maxTokens = this.options.maxTokens ?? Infinity;
+    const dedupe = this.options.dedupe ?? 0.9;
+
+    // Selection follows relevance, so the budget is spent on the best memories
+    const selected: { memory: MemoryResult; line: string }[] = [];
+    const seen: Set<string>[] = [];
+    for (const memory of results.slice(0, this.topK)) {
+      const words = wordSet(memory.content);
+      if (
+        dedupe !== false &&
+        seen.some((other) => jaccard(words, other) >= dedupe)
+      ) {
+        continue;
+      }
+      const line = this.renderLine(memory);
+      const text = render(header, [...selected.map((s) => s.line), line]);
+      if (tokenizer(text) > maxTokens) continue;
+      selected.push({ memory, line });
+      seen.push(words);
+    }
+
+    if (selected.length === 0) return { text: "", memories: [] };
+    if (this.options.order === "chronological") {
+      selected.sort((a, b) => timestamp(a.memory) - timestamp(b.memory));
+    }
+    return {
+      text: render(
+        header,
+        selected.map((s) => s.line)
+      ),
+      memories: selected.map((s) => s.memory),
+    };
+  }
+
+  private renderLine(memory: MemoryResult): string {
+    const template = this.options.template ?? "- {content}";
+    if (typeof template === "function") return template(memory);
+    return template.replace(/\{(\w+)\}/g, (_, key: string) => {
+      if (key === "content") return memory.content;
+      if (key === "id") return memory.id;
+      if (key === "similarity") {
+        return memory.similarity === undefined
+          ? ""
+          : memory.similarity.toFixed(2);
+      }
+      const value = memory.metadata?.[key];
+      return value === undefined || value === null ? "" : String(value);
+    });
+  }
+}
+
+function render(header: string, lines: string[]): string {
+  return header ? `${header}\n${lines.join("\n")}` : lines.join("\n");
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Creation time of a memory in milliseconds (0 if unknown).
+ */
+function timestamp(memory: MemoryResult): number {
+  const time = Date.parse(isoTimestamp(memory.metadata?.created_at) ?? "");
+  return Number.isNaN(time) ? 0 : time;
+}
@@ -1,3 +1,5 @@
+import type { EmbeddingInfo } from "./types";
+
 /**
  * Base error class for all Memori-related exceptions.
  * All specific errors thrown by this library inherit from this class.
@@ -46,3 +48,57 @@ export class ConfigurationError extends MemoriError {
     this.name = "ConfigurationError";
   }
 }
+
+/**
+ * Thrown when a metadata filter expression is malformed (e.g., unknown operator, wrong operand type).
+ */
+export class FilterError extends MemoriError {
+  constructor(message: string) {
+    super(message);
+    this.name = "FilterError";
+  }
+}
+
+/**
+ * Thrown when a database was written by a newer version of the library (unknown schema version).
+ */
+export class SchemaVersionError extends MemoriError {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
+
+/**
+ * Thrown when the configured embedding model (provider, model or dimension) doesn't match
+ * the one that produced the stored vectors. Use `Memori.reembed` to migrate the vectors.
+ */
+export class EmbeddingMismatchError extends ConfigurationError {
+  /**
+   * @param message - Descriptive error message.
+   * @param stored - The embedding model recorded for the stored vectors.
+   * @param configured - The embedding model currently configured.
+   */
+  constructor(
+    message: string,
+    public stored?: Partial<EmbeddingInfo>,
+    public configured?: Partial<EmbeddingInfo>
+  ) {
+    super(message);
+    this.name = "EmbeddingMismatchError";
+  }
+}
+
+/**
+ * Thrown when an import archive contains a line that is not a valid memory record.
+ */
+export class ImportError extends MemoriError {
+  /**
+   * @param message - Descriptive error message.
+   * @param line - Line number (1-based) of the invalid record.
+   */
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
@@ -0,0 +1,288 @@
+import {
+  FieldCondition,
+  FilterValue,
+  MemoryFilter,
+  MemoryMetadata,
+  MetadataFilter,
+} from "./types";
+import { FilterError } from "./errors";
+
+/**
+ * Comparison operators supported on a single field.
+ */
+export type ComparisonOperator =
+  "$eq" | "$ne" | "$in" | "$gt" | "$gte" | "$lt" | "$lte" | "$exists";
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  "$eq",
+  "$ne",
+  "$in",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$exists",
+];
+
+/**
+ * SQL spelling of the range and equality operators.
+ */
+export const SQL_OPERATORS: Record<string, string> = {
+  $eq: "=",
+  $ne: "<>",
+  $gt: ">",
+  $gte: ">=",
+  $lt: "<",
+  $lte: "<=",
+};
+
+/**
+ * Store-specific SQL generation for a single field comparison.
+ * Implementations are responsible for binding `value` as a query parameter.
+ */
+export interface FilterDialect {
+  /**
+   * @param field - Metadata key (dot-separated for nested keys) or standard field (`created_at`, `role`, ...).
+   * @param op - The comparison operator.
+   * @param value - The operand (already validated for the operator).
+   * @returns A SQL boolean expression.
+   */
+  compare(field: string, op: ComparisonOperator, value: any): string;
+}
+
+/**
+ * Splits a (dot-separated) field name into its path segments.
+ * Only letters, digits, `_` and `-` are allowed in segments, so paths are safe to embed in JSON path syntax.
+ * @throws FilterError if the field name is invalid.
+ */
+export function fieldPath(field: string): string[] {
+  if (!/^[\w-]+(\.[\w-]+)*$/.test(field)) {
+    throw new FilterError(`Invalid field name '${field}'`);
+  }
+  return field.split(".");
+}
+
+/**
+ * Compiles a metadata filter expression into a SQL boolean expression using the given dialect.
+ * Values never appear in the SQL text; they are bound by the dialect.
+ * @throws FilterError if the expression is malformed.
+ */
+export function compileFilter(
+  filter: MetadataFilter,
+  dialect: FilterDialect
+): string {
+  const clauses: string[] = [];
+
+  for (const [key, operand] of Object.entries(filter)) {
+    if (operand === undefined) continue;
+
+    if (key === "$and" || key === "$or") {
+      const children = asFilterList(key, operand);
+      if (children.length === 0) {
+        // Empty $and matches everything, empty $or matches nothing
+        clauses.push(key === "$and" ? "1=1" : "1=0");
+        continue;
+      }
+      const joiner = key === "$and" ? " AND " : " OR ";
+      clauses.push(
+        `(${children.map((c) => compileFilter(c, dialect)).join(joiner)})`
+      );
+    } else if (key === "$not") {
+      // Rows where the inner expression is NULL (e.g. missing keys) are kept
+      clauses.push(
+        `NOT COALESCE((${compileFilter(
+          asFilter(key, operand),
+          dialect
+        )}), FALSE)`
+      );
+    } else if (key.startsWith("$")) {
+      throw new FilterError(`Unknown logical operator '${key}'`);
+    } else {
+      for (const [op, value] of fieldConditions(key, operand)) {
+        clauses.push(dialect.compare(key, op, value));
+      }
+    }
+  }
+
+  return clauses.length > 0 ? clauses.join(" AND ") : "1=1";
+}
+
+/**
+ * Evaluates a metadata filter expression against a memory's metadata in memory.
+ * Intended for custom `VectorStore` implementations that cannot compile filters to a query language.
+ * `created_at` values are compared as dates.
+ * @throws FilterError if the expression is malformed.
+ */
+export function evaluateFilter(
+  metadata: MemoryMetadata | null,
+  filter: MetadataFilter
+): boolean {
+  const data = metadata || {};
+
+  return Object.entries(filter).every(([key, operand]) => {
+    if (operand === undefined) return true;
+
+    if (key === "$and") {
+      return asFilterList(key, operand).every((c) => evaluateFilter(data, c));
+    }
+    if (key === "$or") {
+      return asFilterList(key, operand).some((c) => evaluateFilter(data, c));
+    }
+    if (key === "$not") {
+      return !evaluateFilter(data, asFilter(key, operand));
+    }
+    if (key.startsWith("$")) {
+      throw new FilterError(`Unknown logical operator '${key}'`);
+    }
+
+    const actual = readField(data, key);
+    return fieldConditions(key, operand).every(([op, value]) =>
+      evaluateComparison(key, actual, op, value)
+    );
+  });
+}
+
+/**
+ * Checks whether a memory matches a complete `MemoryFilter` (attribution fields and metadata expression).
+ */
+export function matchesMemoryFilter(
+  metadata: MemoryMetadata | null,
+  filter?: MemoryFilter
+): boolean {
+  if (!filter) return true;
+  const data = metadata || {};
+  if (filter.entityId && data.entityId !== filter.entityId) return false;
+  if (filter.processId && data.processId !== filter.processId) return false;
+  if (filter.sessionId && data.sessionId !== filter.sessionId) return false;
+  return filter.metadata ? evaluateFilter(data, filter.metadata) : true;
+}
+
+/**
+ * Normalizes a field operand into a list of validated (operator, value) pairs.
+ * A bare value is shorthand for `$eq`.
+ */
+function fieldConditions(
+  field: string,
+  operand: MetadataFilter[string]
+): [ComparisonOperator, any][] {
+  if (!isPlainObject(operand)) {
+    return [["$eq", normalizeValue(operand as FilterValue)]];
+  }
+
+  return Object.entries(operand as FieldCondition).map(([op, value]) => {
+    if (!COMPARISON_OPERATORS.includes(op as ComparisonOperator)) {
+      throw new FilterError(`Unknown operator '${op}' on field '${field}'`);
+    }
+    switch (op) {
+      case "$in":
+        if (!Array.isArray(value)) {
+          throw new FilterError(`'$in' on field '${field}' expects an array`);
+        }
+        return [op, value.map(normalizeValue)];
+      case "$exists":
+        if (typeof value !== "boolean") {
+          throw new FilterError(
+            `'$exists' on field '${field}' expects a boolean`
+          );
+        }
+        return [op, value];
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte": {
+        const normalized = normalizeValue(value);
+        if (typeof normalized !== "number" && typeof normalized !== "string") {
+          throw new FilterError(
+            `'${op}' on field '${field}' expects a number, date or string`
+          );
+        }
+        return [op, normalized];
+      }
+      default:
+        return [op as ComparisonOperator, normalizeValue(value)];
+    }
+  });
+}
+
+function evaluateComparison(
+  field: string,
+  actual: any,
+  op: ComparisonOperator,
+  expected: any
+): boolean {
+  switch (op) {
+    case "$exists":
+      return (actual !== undefined) === expected;
+    case "$eq":
+      // Like SQL's IS NULL, `null` also matches missing keys
+      return expected === null ? actual == null : actual === expected;
+    case "$ne":
+      return expected === null ? actual != null : actual !== expected;
+    case "$in":
+      return (expected as any[]).includes(actual);
+    default: {
+      if (actual === undefined || actual === null) return false;
+      let a = actual;
+      let b = expected;
+      if (field === "created_at") {
+        a = parseTimestamp(actual);
+        b = parseTimestamp(expected);
+      } else if (typeof a !== typeof b) {
+        return false;
+      }
+      if (op === "$gt") return a > b;
+      if (op === "$gte") return a >= b;
+      if (op === "$lt") return a < b;
+      return a <= b;
+    }
+  }
+}
+
+/**
+ * Parses stored timestamps, including SQLite's `YYYY-MM-DD HH:MM:SS` (UTC) format.
+ */
+function parseTimestamp(value: any): number {
+  if (value instanceof Date) return value.getTime();
+  const text = String(value);
+  return Date.parse(
+    /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(text)
+      ? `${text.replace(" ", "T")}Z`
+      : text
+  );
+}
+
+function readField(data: MemoryMetadata, field: string): any {
+  return fieldPath(field).reduce<any>(
+    (value, key) =>
+      value !== null && typeof value === "object" ? value[key] : undefined,
+    data
+  );
+}
+
+function normalizeValue(value: any): any {
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function asFilterList(op: string, operand: any): MetadataFilter[] {
+  if (!Array.isArray(operand) || !operand.every(isPlainObject)) {
+    throw new FilterError(`'${op}' expects an array of filter expressions`);
+  }
+  return operand;
+}
+
+function asFilter(op: string, operand: any): MetadataFilter {
+  if (!isPlainObject(operand)) {
+    throw new FilterError(`'${op}' expects a filter expression`);
+  }
+  return operand;
+}
+
+function isPlainObject(value: any): boolean {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
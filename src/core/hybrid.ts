@@ -0,0 +1,51 @@
+import { MemoryResult } from "./types";
+
+/**
+ * A ranked result list taking part in rank fusion.
+ */
+export interface RankedList {
+  /** Results, best match first */
+  results: MemoryResult[];
+  /** Relative weight of this ranking in the fused score. Defaults to 1. */
+  weight?: number;
+}
+
+/**
+ * Fuses several rankings of the same memories with Reciprocal Rank Fusion (RRF).
+ *
+ * Each memory scores `sum(weight / (k + rank))` over the lists it appears in (rank is 1-based),
+ * so it only depends on positions, not on the incomparable raw scores (BM25 vs. vector distance).
+ *
+ * @param lists - The rankings to fuse.
+ * @param k - Smoothing constant. Higher values flatten the advantage of top ranks. Defaults to 60.
+ * @returns The merged results, sorted by fused `score` (highest first).
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  k = 60
+): MemoryResult[] {
+  const fused = new Map<string, MemoryResult>();
+
+  for (const { results, weight = 1 } of lists) {
+    results.forEach((result, index) => {
+      const contribution = weight / (k + index + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score = (existing.score || 0) + contribution;
+      } else {
+        fused.set(result.id, { ...result, score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score! - a.score!);
+}
+
+/**
+ * Splits a free-text query into plain search terms (letters, digits and underscores).
+ * Stores quote and combine these themselves, so user input never reaches the
+ * full-text query parser verbatim.
+ */
+export function extractSearchTerms(query: string): string[] {
+  return query.match(/[\p{L}\p{N}_]+/gu) || [];
+}
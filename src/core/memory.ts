@@ -1,12 +1,82 @@
 import { type } from "arktype";
 import { SqliteVecStore } from "../stores/sqlite";
-import { VectorStore, EmbeddingProvider } from "./types";
+import {
+  VectorStore,
+  EmbeddingProvider,
+  MemoryFilter,
+  MemoryMetadata,
+  MemoryPage,
+  MemoryRecord,
+  MemoryResult,
+  MemoryScope,
+  NewMemory,
+  AddMemoriesOptions,
+  SearchOptions,
+  SessionPolicy,
+  EmbeddingCache,
+  EmbeddingCacheStats,
+  MigrateOptions,
+  MigrationReport,
+  EmbeddingInfo,
+  ReembedOptions,
+  ReembedReport,
+  ExportOptions,
+  ExportReport,
+  ImportOptions,
+  ImportReport,
+  MemoryExportRecord,
+  MemoryInput,
+  ImportConflictPolicy,
+  ToolMemoryOptions,
+  MediaPart,
+  MultimodalExtractor,
+  ContextOptions,
+  TTLPolicy,
+  PruneReport,
+  RerankOptions,
+  WritePolicy,
+} from "./types";
 import { GoogleGenAIEmbedding } from "../embeddings/google";
 import { OpenAIEmbedding } from "../embeddings/openai";
+import { CachedEmbeddingProvider } from "../embeddings/cached";
 
 import OpenAI from "openai";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { tapAsyncIterable, tapStream } from "./streaming";
+import {
+  CapturedToolCall,
+  anthropicToolCalls,
+  googleToolCalls,
+  openAIToolCalls,
+  selectToolCalls,
+  toolMemory,
+} from "./tools";
+import {
+  CallbackMultimodalExtractor,
+  anthropicMediaParts,
+  contentText,
+  googleMediaParts,
+  mediaMetadata,
+  openAIMediaParts,
+} from "./multimodal";
+import { ContextBuilder } from "./context";
+import { reciprocalRankFusion } from "./hybrid";
+import { rerank } from "./rerank";
 import { Logger, ConsoleLogger } from "./logger";
-import { ConfigurationError, EmbeddingError, VectorStoreError } from "./errors";
+import {
+  ExportSink,
+  ImportSource,
+  parseExportRecord,
+  readLines,
+  toExportRecord,
+  writeChunk,
+} from "./archive";
+import {
+  ConfigurationError,
+  EmbeddingError,
+  EmbeddingMismatchError,
+  VectorStoreError,
+} from "./errors";
 
 // ArkType Validation Definition
 // Defines the schema for configuration options
@@ -19,6 +89,16 @@ const MemoriConfig = type({
   "logger?": "unknown",
   "clara?": "unknown",
   "llm?": "unknown", // { generate: (prompt: string) => Promise<string> }
+  "search?": "unknown", // SearchOptions
+  "session?": "unknown", // SessionPolicy
+  "embeddingCache?": "unknown", // boolean | EmbeddingCache
+  "toolMemory?": "unknown", // boolean | ToolMemoryOptions
+  "multimodal?": "unknown", // boolean | MultimodalExtractor
+  "context?": "unknown", // ContextOptions | ContextBuilder
+  "ttl?": "unknown", // TTLPolicy
+  "rerank?": "unknown", // boolean | RerankOptions
+  "writePolicy?": "unknown", // WritePolicy
+  "distanceMetric?": "'cosine' | 'l2' | 'inner_product'",
 });
 
 export type MemoriOptions = typeof MemoriConfig.infer;
@@ -40,6 +120,8 @@ export interface ExecutionStats {
     /** The actual query used for search (could be reasoned/modified) */
     usedQuery?: string;
   };
+  /** Hit/miss counters of the embedding cache, if one is used */
+  embeddingCache?: EmbeddingCacheStats;
 }
 
 export interface ClaraConfig {
@@ -77,24 +159,39 @@ export interface ClaraConfig {
  */
 export class Memori {
   private db: VectorStore;
+  /** Initialization of the default store; inserts and searches wait for it */
+  private ready: Promise<void> = Promise.resolve();
+  /** Dimension the stored vectors must have, when known */
+  private embeddingDimension?: number;
   private embeddingProvider: EmbeddingProvider;
   private logger: Logger;
   private entityId: string | null = null;
   private processId: string | null = null;
+  private sessionId: string | null = null;
+  private scopeStorage = new AsyncLocalStorage<MemoryScope>();
+  /** Set while a patched Google chat session calls the models API */
+  private googleChatCall = new AsyncLocalStorage<boolean>();
   private pendingPromises: Promise<any>[] = [];
   private claraConfig?: ClaraConfig;
   private internalLLM?: { generate: (prompt: string) => Promise<string> };
+  private searchDefaults: SearchOptions;
+  private sessionPolicy: SessionPolicy;
+  private toolMemory?: ToolMemoryOptions;
+  private multimodal?: MultimodalExtractor;
+  private contextBuilder: ContextBuilder;
+  private ttlPolicy: TTLPolicy;
+  private rerankOptions?: RerankOptions;
+  /** Access counts are updated one search at a time, so concurrent increments aren't lost */
+  private accessQueue: Promise<void> = Promise.resolve();
+  private writePolicy?: WritePolicy;
+  /** With a write policy, memories are added one at a time, so each sees the duplicates before it */
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private pruneTimer?: ReturnType<typeof setInterval>;
 
   /**
    * Public statistics object to track performance and usage.
    */
-  public stats: {
-    lastRun?: {
-      contextChunks: number;
-      processingTimeMs: number;
-      timestamp: string;
-    };
-  } = {};
+  public stats: ExecutionStats = {};
 
   /**
    * Configuration helper.
@@ -105,8 +202,15 @@ export class Memori {
       /**
        * Manuall initialize the storage backend.
        * Useful if you want to ensure the DB is ready before starting the app.
+       * @throws EmbeddingMismatchError if the stored vectors were produced by another embedding model.
        */
       build: () => Promise<void>;
+      /**
+       * Applies pending schema migrations of the storage backend.
+       * With `dryRun`, only logs and returns the migrations that would be applied.
+       * @throws ConfigurationError if the vector store doesn't support migrations.
+       */
+      migrate: (options?: MigrateOptions) => Promise<MigrationReport>;
     };
   };
 
@@ -137,6 +241,24 @@ export class Memori {
     wait: () => Promise<void>;
   };
 
+  /**
+   * Housekeeping of the store.
+   */
+  public maintenance: {
+    /**
+     * Hard-deletes the memories whose `expiresAt` has passed.
+     * @throws ConfigurationError if the vector store doesn't support pruning.
+     */
+    prune: () => Promise<PruneReport>;
+    /**
+     * Runs `prune` every `intervalMs` milliseconds (replacing any previous schedule).
+     * The timer doesn't keep the process alive; failures are logged.
+     */
+    start: (intervalMs: number) => void;
+    /** Stops the scheduled pruning. */
+    stop: () => void;
+  };
+
   /**
    * Creates a new Memori instance.
    * @param options - Configuration options.
@@ -181,35 +303,125 @@ export class Memori {
       throw new ConfigurationError("Missing configuration");
     }
 
+    // Embedding Cache: `true` for an in-memory LRU, or a custom backend (e.g. SqliteEmbeddingCache)
+    if (config.embeddingCache) {
+      this.embeddingProvider = new CachedEmbeddingProvider(
+        this.embeddingProvider,
+        {
+          cache:
+            config.embeddingCache === true
+              ? undefined
+              : (config.embeddingCache as EmbeddingCache),
+          dimension: config.embeddingDimension || defaultDimensions,
+        }
+      );
+    }
+    if (this.embeddingProvider instanceof CachedEmbeddingProvider) {
+      // Shared counters object, so stats stay live
+      this.stats.embeddingCache = this.embeddingProvider.stats;
+    }
+
+    // Internal LLM (CLaRa, memory consolidation)
+    if (config.llm) {
+      this.internalLLM = config.llm as {
+        generate: (prompt: string) => Promise<string>;
+      };
+    }
+
     // CLaRa Setup
     if (config.clara) {
       this.claraConfig = config.clara as ClaraConfig;
-      if (config.llm) {
-        this.internalLLM = config.llm as {
-          generate: (prompt: string) => Promise<string>;
-        };
-      } else {
+      if (!config.llm) {
         this.logger.warn(
           "CLaRa is enabled but no 'llm' provider was passed in options. Compression and Reasoning will fail unless a generator is provided."
         );
       }
     }
 
+    // Default search behaviour (can be overridden per call)
+    this.searchDefaults = (config.search as SearchOptions) || {};
+    this.sessionPolicy = (config.session as SessionPolicy) || {};
+    // Assembly of the injected context (top K, token budget, templates)
+    this.contextBuilder =
+      config.context instanceof ContextBuilder
+        ? config.context
+        : new ContextBuilder(config.context as ContextOptions | undefined);
+    // Memories don't expire unless a TTL policy applies
+    this.ttlPolicy = (config.ttl as TTLPolicy) || {};
+    // Reranking is opt-in: `true` uses the default weights
+    if (config.rerank) {
+      this.rerankOptions =
+        config.rerank === true ? {} : (config.rerank as RerankOptions);
+    }
+    // Deduplication on write is opt-in
+    if (config.writePolicy) {
+      this.writePolicy = config.writePolicy as WritePolicy;
+      if (this.writePolicy.mode === "consolidate" && !this.internalLLM) {
+        throw new ConfigurationError(
+          "The 'consolidate' write policy needs an 'llm' provider."
+        );
+      }
+    }
+    // Tool call capture is opt-in: `true` captures every tool
+    if (config.toolMemory) {
+      this.toolMemory =
+        config.toolMemory === true
+          ? {}
+          : (config.toolMemory as ToolMemoryOptions);
+    }
+    // Media capture is opt-in: `true` remembers media by a text placeholder
+    if (config.multimodal) {
+      this.multimodal =
+        config.multimodal === true
+          ? new CallbackMultimodalExtractor()
+          : (config.multimodal as MultimodalExtractor);
+    }
+
     // Default Vector Store
+    this.embeddingDimension = config.embeddingDimension;
     if (config.vectorStore) {
       this.db = config.vectorStore as VectorStore;
     } else {
       const dim = config.embeddingDimension || defaultDimensions;
-      this.db = new SqliteVecStore(config.dbPath, this.logger, dim);
-      this.db
-        .init()
-        .catch((e) => this.logger.error("Failed to init default DB:", e));
+      this.db = new SqliteVecStore(
+        config.dbPath,
+        this.logger,
+        dim,
+        config.distanceMetric
+      );
+      this.embeddingDimension = dim;
+      this.ready = this.db.init().then(() => this.verifyEmbeddingInfo());
+      // Logged here, and rethrown by the first insert or search
+      this.ready.catch((e) =>
+        this.logger.error("Failed to init default DB:", e)
+      );
     }
 
     this.config = {
       storage: {
         build: async () => {
-          await this.db.init();
+          this.ready = this.db.init().then(() => this.verifyEmbeddingInfo());
+          await this.ready;
+        },
+        migrate: async (options: MigrateOptions = {}) => {
+          if (!this.db.migrate) {
+            throw new ConfigurationError(
+              "The configured vector store does not support migrations."
+            );
+          }
+          const report = await this.db.migrate(options);
+          const prefix = report.dryRun ? "[dry run] Would apply" : "Applied";
+          if (report.migrations.length === 0) {
+            this.logger.info(
+              `Storage schema is up to date (version ${report.fromVersion}).`
+            );
+          }
+          for (const m of report.migrations) {
+            this.logger.info(
+              `${prefix} migration ${m.version}: ${m.description}`
+            );
+          }
+          return report;
         },
       },
     };
@@ -268,26 +480,99 @@ export class Memori {
         this.pendingPromises = [];
       },
     };
+
+    this.maintenance = {
+      prune: async () => {
+        if (!this.db.prune) {
+          throw new ConfigurationError(
+            "The configured vector store does not support pruning."
+          );
+        }
+        const start = Date.now();
+        const deleted = await this.db.prune();
+        const durationMs = Date.now() - start;
+        this.logger.info(`Pruned ${deleted} expired memories.`);
+        return { deleted, durationMs };
+      },
+      start: (intervalMs: number) => {
+        this.maintenance.stop();
+        this.pruneTimer = setInterval(() => {
+          this.maintenance
+            .prune()
+            .catch((e) => this.logger.error("Scheduled prune failed:", e));
+        }, intervalMs);
+        this.pruneTimer.unref?.();
+      },
+      stop: () => {
+        if (this.pruneTimer) clearInterval(this.pruneTimer);
+        this.pruneTimer = undefined;
+      },
+    };
+    if (this.ttlPolicy.pruneInterval) {
+      this.maintenance.start(this.ttlPolicy.pruneInterval);
+    }
   }
 
   /**
    * Set context attribution.
-   * This scopes future searches and inserts to specific entities or processes.
+   * This scopes future searches and inserts to specific entities, processes or sessions.
+   *
+   * Note: this is instance-wide state. In servers handling several users concurrently,
+   * use `withScope` instead so that requests cannot leak into each other's memory.
    * @param entity_id - The ID of the user or agent.
    * @param process_id - The ID of the conversation or process.
+   * @param session_id - The ID of the current session (optional).
    */
-  public attribution(entity_id: string, process_id: string) {
+  public attribution(
+    entity_id: string,
+    process_id: string,
+    session_id?: string
+  ) {
     this.entityId = entity_id;
     this.processId = process_id;
+    this.sessionId = session_id || null;
   }
 
   /**
-   * Internal helper to retrieve relevant context for a query.
-   * 1. Embeds the query.
-   * 2. Searches the vector store.
-   * 3. Formats the results into a context string.
+   * Runs a function with a request-scoped attribution.
+   * Everything `fn` triggers, synchronously or asynchronously (patched LLM clients,
+   * `addMemory`, `search`, ...), uses this scope instead of the instance attribution.
+   * Nested scopes inherit the fields they don't override.
+   *
+   * @example
+   * await memori.withScope({ entityId: user.id, sessionId }, () =>
+   *   client.chat.completions.create({ ... })
+   * );
    */
-  private async retrieveContext(query: string): Promise<string> {
+  public withScope<T>(scope: MemoryScope, fn: () => T): T {
+    const parent = this.scopeStorage.getStore() || {};
+    return this.scopeStorage.run(
+      {
+        entityId: scope.entityId ?? parent.entityId,
+        processId: scope.processId ?? parent.processId,
+        sessionId: scope.sessionId ?? parent.sessionId,
+      },
+      fn
+    );
+  }
+
+  /**
+   * Returns the attribution that applies at this point: the active `withScope` scope,
+   * falling back to the instance attribution for fields it doesn't set.
+   */
+  public getScope(): MemoryScope {
+    return this.currentScope();
+  }
+
+  /**
+   * Retrieves the memory context for a query, as injected into LLM calls.
+   * 1. Reasons about the query (CLaRa), if enabled.
+   * 2. Searches the top K memories.
+   * 3. Assembles them with the `context` options (token budget, dedup, order, templates).
+   * Never throws: search failures are logged and yield an empty context.
+   * @returns The context text, or "" if no memory is relevant.
+   */
+  async retrieveContext(query: string): Promise<string> {
     const start = Date.now();
     let context = "";
     let chunks = 0;
@@ -310,18 +595,14 @@ export class Memori {
         }
       }
 
-      const results = await this.search(searchKey, 5);
-      chunks = results.length;
-      if (chunks > 0) {
-        context = results
-          .map((r) => `- ${r.content} (score: ${r.distance})`)
-          .join("\n");
-      }
+      const results = await this.search(searchKey, this.contextBuilder.topK);
+      const built = this.contextBuilder.build(results);
+      context = built.text;
+      chunks = built.memories.length;
 
       // Update stats with used query
       if (!this.stats.lastRun) this.stats.lastRun = {} as any;
-      // @ts-ignore
-      this.stats.lastRun.usedQuery = searchKey;
+      this.stats.lastRun!.usedQuery = searchKey;
     } catch (e) {
       this.logger.error("Memori search failed:", e);
       // Fail gracefully for context retrieval so the chat doesn't crash
@@ -347,6 +628,8 @@ export class Memori {
     );
     // @ts-ignore
     client.chat.completions.create = async (body: any, options?: any) => {
+      // Capture the attribution now, the response may be consumed in another async context
+      const scope = this.currentScope();
       const messages = body.messages || [];
       // Find the last user message to use as the search query
       const lastMsg = messages
@@ -354,17 +637,18 @@ export class Memori {
         .reverse()
         .find((m: any) => m.role === "user");
 
+      // Text of the message (the text parts of mixed content)
+      const query = lastMsg ? contentText(lastMsg.content) : "";
+
       let context = "";
       // 1. Retrieve Context if we have a user message
-      if (lastMsg && typeof lastMsg.content === "string") {
-        context = await this.retrieveContext(lastMsg.content);
+      if (query) {
+        context = await this.retrieveContext(query);
       }
 
       // 2. Inject Context
       const newMessages = [...messages];
       if (context) {
-        const systemPrompt = `Use the following memory context to answer the user if relevant:\n${context}`;
-
         // Find existing system message to append to, or prepend new one
         const systemMsgIndex = newMessages.findIndex(
           (m: any) => m.role === "system"
@@ -374,22 +658,19 @@ export class Memori {
           if (typeof existing === "string") {
             newMessages[systemMsgIndex] = {
               ...newMessages[systemMsgIndex],
-              content: `${existing}\n\n${systemPrompt}`,
+              content: `${existing}\n\n${context}`,
             };
           } else if (Array.isArray(existing)) {
             // Append as a text part
             newMessages[systemMsgIndex] = {
               ...newMessages[systemMsgIndex],
-              content: [
-                ...existing,
-                { type: "text", text: `\n\n${systemPrompt}` },
-              ],
+              content: [...existing, { type: "text", text: `\n\n${context}` }],
             };
           }
         } else {
           newMessages.unshift({
             role: "system",
-            content: systemPrompt,
+            content: context,
           });
         }
       }
@@ -400,23 +681,43 @@ export class Memori {
         options
       );
 
-      // 4. Auto-save (Non-streaming only for now)
-      // If streaming, 'response' is a Stream, and we can't easily capture the full text without tapping the stream
-      // which is complex. For now, we skip auto-save on stream: true.
-      if (!body.stream && lastMsg && typeof lastMsg.content === "string") {
-        this.queueMemory(lastMsg.content, "user");
-
-        // Safety check for response structure
-        if (
-          response &&
-          "choices" in response &&
-          response.choices &&
-          response.choices[0]
-        ) {
-          const message = response.choices[0].message;
-          if (message && message.content) {
-            this.queueMemory(message.content, "assistant");
-          }
+      // 4. Auto-save
+      // In tool loops the user message stays the last one: only save it on the turn that sends it
+      const isNewTurn = lastMsg && lastMsg === messages[messages.length - 1];
+      const turn: RequestTurn = {
+        userText: isNewTurn ? query : "",
+        media: isNewTurn ? openAIMediaParts(lastMsg.content) : [],
+        toolCalls: openAIToolCalls(messages),
+      };
+
+      if (body.stream) {
+        // Tap the stream: chunks pass through unchanged while the assistant text is accumulated
+        let assistantText = "";
+        return tapStream(response as any, {
+          onChunk: (chunk: any) => {
+            const delta = chunk?.choices?.[0]?.delta?.content;
+            if (typeof delta === "string") assistantText += delta;
+          },
+          onComplete: () => {
+            this.saveRequestTurn(turn, scope);
+            if (assistantText)
+              this.queueMemory(assistantText, "assistant", scope);
+          },
+        });
+      }
+
+      this.saveRequestTurn(turn, scope);
+
+      // Safety check for response structure
+      if (
+        response &&
+        "choices" in response &&
+        response.choices &&
+        response.choices[0]
+      ) {
+        const message = response.choices[0].message;
+        if (message && message.content) {
+          this.queueMemory(message.content, "assistant", scope);
         }
       }
       return response;
@@ -431,30 +732,44 @@ export class Memori {
     // Anthropic SDK: client.messages.create({...})
     const originalCreate = client.messages.create.bind(client.messages);
     client.messages.create = async (body: any, options?: any) => {
+      // Capture the attribution now, the response may be consumed in another async context
+      const scope = this.currentScope();
       const messages = body.messages || [];
       const lastMsg = messages[messages.length - 1];
+      // Tool results are not user input: in a tool loop, search with the turn that started it
+      const queryMsg = messages
+        .slice()
+        .reverse()
+        .find((m: any) => m.role === "user" && contentText(m.content));
+      // Only new user turns are saved, so tool loops don't store the same input again
+      const turn: RequestTurn = {
+        userText:
+          queryMsg && queryMsg === lastMsg ? contentText(lastMsg.content) : "",
+        media:
+          lastMsg?.role === "user" ? anthropicMediaParts(lastMsg.content) : [],
+        toolCalls: anthropicToolCalls(messages),
+      };
 
       let context = "";
-      if (
-        lastMsg &&
-        lastMsg.role === "user" &&
-        typeof lastMsg.content === "string"
-      ) {
-        context = await this.retrieveContext(lastMsg.content);
+      if (queryMsg) {
+        context = await this.retrieveContext(contentText(queryMsg.content));
       }
 
       // Anthropic System Prompt handling
-      let newSystem = body.system || "";
+      let newSystem = body.system;
       if (context) {
-        // If system is array of blocks (beta), handle strings only for now or append to string
-        if (typeof newSystem === "string") {
-          newSystem = `${newSystem}\n\n[Memory Context]:\n${context}`;
+        if (Array.isArray(newSystem)) {
+          // Append a block: existing blocks (and their cache_control breakpoints) stay untouched
+          newSystem = [...newSystem, { type: "text", text: context }];
+        } else if (newSystem) {
+          newSystem = `${newSystem}\n\n${context}`;
+        } else {
+          newSystem = context;
         }
-        // If it is undefined or null, just set it
-        if (!newSystem) newSystem = `[Memory Context]:\n${context}`;
       }
 
-      const newBody = { ...body, system: newSystem };
+      const newBody =
+        newSystem === undefined ? body : { ...body, system: newSystem };
 
       const start = Date.now();
       const response = await originalCreate(newBody, options);
@@ -464,29 +779,37 @@ export class Memori {
       };
 
       // Auto-save
-      if (lastMsg && typeof lastMsg.content === "string") {
-        this.queueMemory(lastMsg.content, "user");
-        // Anthropic response structure
-        if (
-          response.content &&
-          Array.isArray(response.content) &&
-          response.content.length > 0
-        ) {
-          const textBlock = response.content.find(
-            (b: any) => b.type === "text"
-          );
-          if (textBlock && textBlock.text) {
-            this.queueMemory(textBlock.text, "assistant");
-          }
-        }
+      if (body.stream) {
+        // Streaming events: accumulate text deltas until message_stop.
+        let assistantText = "";
+        return tapStream(response, {
+          onChunk: (event: any) => {
+            if (
+              event?.type === "content_block_delta" &&
+              event.delta?.type === "text_delta"
+            ) {
+              assistantText += event.delta.text;
+            }
+          },
+          onComplete: () => {
+            this.saveRequestTurn(turn, scope);
+            if (assistantText)
+              this.queueMemory(assistantText, "assistant", scope);
+          },
+        });
       }
+
+      this.saveRequestTurn(turn, scope);
+      // Anthropic response structure: text blocks, possibly next to tool_use blocks
+      const assistantText = contentText(response?.content);
+      if (assistantText) this.queueMemory(assistantText, "assistant", scope);
       return response;
     };
   }
 
   /**
    * Monkey-patches the Google GenAI client (v1/Vertex SDK).
-   * Wraps the client.models.generateContent method.
+   * Wraps client.models.generateContent(Stream) and the chat sessions of client.chats.create().
    */
   private patchGoogle(client: any) {
     // The new @google/genai SDK exposes client.models.generateContent(...)
@@ -500,98 +823,493 @@ export class Memori {
     const originalGenerate = client.models.generateContent.bind(client.models);
 
     client.models.generateContent = async (args: any) => {
-      let config = args;
-      let lastText = "";
-
-      // Extract User Query
-      // Structure: { contents: [ { role: 'user', parts: [ { text: '...' } ] } ] }
-      if (config.contents && Array.isArray(config.contents)) {
-        const lastContent = config.contents[config.contents.length - 1];
-        if (lastContent && lastContent.parts && lastContent.parts.length > 0) {
-          const part = lastContent.parts[0];
-          if (part.text) lastText = part.text;
-        }
-      }
+      // Chat sessions call the models API themselves: they are handled by the chat patch
+      if (this.googleChatCall.getStore()) return originalGenerate(args);
+      // Capture the attribution now, the response may be consumed in another async context
+      const scope = this.currentScope();
+      const { request, turn } = await this.prepareGoogleRequest(args);
 
-      // 1. Retrieve Context
-      let context = "";
-      if (lastText) {
-        context = await this.retrieveContext(lastText.substring(0, 500));
-      }
+      // 3. Call Original
+      const response = await originalGenerate(request);
 
-      // 2. Inject Context
-      if (context) {
-        const memoryInstruction = `[Memory Context]:\n${context}`;
+      // 4. Auto-Save
+      if (response) this.saveGoogleTurn(turn, response, scope);
+      return response;
+    };
 
-        if (config.config && config.config.systemInstruction) {
-          let existing = config.config.systemInstruction;
-          if (typeof existing === "string") {
-            config.config.systemInstruction = `${existing}\n\n${memoryInstruction}`;
-          } else if (existing.parts) {
-            existing.parts.push({ text: `\n\n${memoryInstruction}` });
-          }
-        } else {
-          if (!config.config) config.config = {};
-          config.config.systemInstruction = {
-            parts: [{ text: memoryInstruction }],
-          };
-        }
-      }
+    if (typeof client.models.generateContentStream === "function") {
+      const originalStream = client.models.generateContentStream.bind(
+        client.models
+      );
 
-      // 3. Call Original
-      const response = await originalGenerate(config);
+      client.models.generateContentStream = async (args: any) => {
+        if (this.googleChatCall.getStore()) return originalStream(args);
+        // Capture the attribution now, the response may be consumed in another async context
+        const scope = this.currentScope();
+        const { request, turn } = await this.prepareGoogleRequest(args);
+        const stream = await originalStream(request);
+        return this.tapGoogleStream(stream, turn, scope);
+      };
+    }
 
-      // 4. Auto-Save
-      if (lastText && response) {
-        this.queueMemory(lastText, "user");
+    if (client.chats && typeof client.chats.create === "function") {
+      const originalCreateChat = client.chats.create.bind(client.chats);
+      client.chats.create = (params: any) => {
+        const chat = originalCreateChat(params);
+        this.patchGoogleChat(chat, params?.config);
+        return chat;
+      };
+    }
+  }
 
+  /**
+   * Patches a Google chat session: each message is searched with, and saved along with the reply.
+   * The chat history is used to find the query when the message has no text (e.g. function responses).
+   * @param chatConfig - The config the chat was created with, used when a message has no config of its own.
+   */
+  private patchGoogleChat(chat: any, chatConfig: any) {
+    const prepare = async (params: any) => {
+      const history =
+        typeof chat.getHistory === "function" ? chat.getHistory(true) : [];
+      const message = params?.message ?? [];
+      const contents = [
+        ...history,
+        { role: "user", parts: Array.isArray(message) ? message : [message] },
+      ];
+      const { query, turn } = googleRequestTurn(contents);
+      // A per-message config replaces the chat config, it is not merged with it
+      const config = params?.config ?? chatConfig;
+      const withMemory = await this.googleConfigWithMemory(config, query);
+      return {
+        request:
+          withMemory === config ? params : { ...params, config: withMemory },
+        turn,
+      };
+    };
+
+    if (typeof chat.sendMessage === "function") {
+      const originalSend = chat.sendMessage.bind(chat);
+      chat.sendMessage = async (params: any) => {
+        const scope = this.currentScope();
+        const { request, turn } = await prepare(params);
+        const response = await this.googleChatCall.run(true, () =>
+          originalSend(request)
+        );
+        if (response) this.saveGoogleTurn(turn, response, scope);
+        return response;
+      };
+    }
+
+    if (typeof chat.sendMessageStream === "function") {
+      const originalSendStream = chat.sendMessageStream.bind(chat);
+      chat.sendMessageStream = async (params: any) => {
+        const scope = this.currentScope();
+        const { request, turn } = await prepare(params);
+        const stream = await this.googleChatCall.run(true, () =>
+          originalSendStream(request)
+        );
+        return this.tapGoogleStream(stream, turn, scope);
+      };
+    }
+  }
+
+  /**
+   * Extracts the user query from a Google request and injects memory context into its system instruction.
+   * The caller's request is not modified: a copy is returned when context is injected.
+   */
+  private async prepareGoogleRequest(
+    args: any
+  ): Promise<{ request: any; turn: RequestTurn }> {
+    const { query, turn } = googleRequestTurn(args?.contents);
+    const config = await this.googleConfigWithMemory(args?.config, query);
+    return {
+      request: config === args?.config ? args : { ...args, config },
+      turn,
+    };
+  }
+
+  /**
+   * Returns a copy of a generation config with the memory context of `query` added to its system instruction,
+   * or the config itself if there is no context.
+   */
+  private async googleConfigWithMemory(config: any, query: string) {
+    const context = query ? await this.retrieveContext(query) : "";
+    if (!context) return config;
+
+    const existing = config?.systemInstruction;
+    let systemInstruction: any;
+    if (!existing) {
+      systemInstruction = { parts: [{ text: context }] };
+    } else if (typeof existing === "string") {
+      systemInstruction = `${existing}\n\n${context}`;
+    } else if (Array.isArray(existing)) {
+      systemInstruction = [...existing, { text: context }];
+    } else if (Array.isArray(existing.parts)) {
+      systemInstruction = {
+        ...existing,
+        parts: [...existing.parts, { text: context }],
+      };
+    } else {
+      // A single part
+      systemInstruction = [existing, { text: context }];
+    }
+    return { ...config, systemInstruction };
+  }
+
+  /**
+   * Saves a user message (and tool results) and the reply of a (non-streaming) Google response.
+   */
+  private saveGoogleTurn(turn: RequestTurn, response: any, scope: MemoryScope) {
+    this.saveRequestTurn(turn, scope);
+    try {
+      const text = this.extractGoogleText(response);
+      if (text) this.queueMemory(text, "assistant", scope);
+    } catch (e) {
+      this.logger.warn(
+        "Failed to extract text from Google response for memory",
+        e
+      );
+    }
+  }
+
+  /**
+   * Passes a Google response stream through, saving the exchange once it has been fully consumed.
+   */
+  private tapGoogleStream(stream: any, turn: RequestTurn, scope: MemoryScope) {
+    let assistantText = "";
+    return tapAsyncIterable(stream, {
+      onChunk: (chunk: any) => {
+        assistantText += this.extractGoogleText(chunk);
+      },
+      onComplete: () => {
+        this.saveRequestTurn(turn, scope);
+        if (assistantText) this.queueMemory(assistantText, "assistant", scope);
+      },
+    });
+  }
+
+  /**
+   * Reads the generated text from a Google response (or streamed chunk).
+   */
+  private extractGoogleText(response: any): string {
+    if (typeof response.text === "function") {
+      return response.text() || "";
+    } else if (typeof response.text === "string") {
+      return response.text;
+    } else if (response.candidates && response.candidates.length > 0) {
+      return googlePartsText(response.candidates[0].content?.parts);
+    }
+    return "";
+  }
+
+  /**
+   * Helper to queue memory insertions in the background without blocking the main flow.
+   * `augmentation.wait()` waits for queued insertions; failures are logged.
+   */
+  public queueMemory(
+    content: string,
+    role: string,
+    scope: MemoryScope = this.currentScope()
+  ) {
+    // The scope is resolved by the caller: attribution may change before the save runs
+    const p = this.addMemory(content, role, scope).catch((e) =>
+      this.logger.error("Memori save failed:", e)
+    );
+    this.pendingPromises.push(p);
+  }
+
+  /**
+   * Saves what a request contributed to the conversation: tool results, the user message and its media.
+   */
+  private saveRequestTurn(turn: RequestTurn, scope: MemoryScope) {
+    this.captureToolCalls(turn.toolCalls, scope);
+    if (turn.userText) this.queueMemory(turn.userText, "user", scope);
+    this.captureMedia(turn.media, "user", scope);
+  }
+
+  /**
+   * Queues the media parts of a message as text memories, if a `multimodal` extractor is configured.
+   * Parts that fail to extract are skipped.
+   */
+  private captureMedia(parts: MediaPart[], role: string, scope: MemoryScope) {
+    const extractor = this.multimodal;
+    if (!extractor || parts.length === 0) return;
+    const p = (async () => {
+      const memories: NewMemory[] = [];
+      for (const part of parts) {
         try {
-          let text = "";
-          if (typeof response.text === "function") {
-            text = response.text();
-          } else if (typeof response.text === "string") {
-            text = response.text;
-          } else if (response.candidates && response.candidates.length > 0) {
-            const parts = response.candidates[0].content?.parts;
-            if (parts && parts.length > 0 && parts[0].text) {
-              text = parts[0].text;
-            }
+          const text = await extractor.extract(part);
+          if (text) {
+            memories.push({
+              content: text,
+              role,
+              scope,
+              metadata: mediaMetadata(part),
+            });
           }
-
-          if (text) this.queueMemory(text, "assistant");
         } catch (e) {
-          this.logger.warn(
-            "Failed to extract text from Google response for memory",
-            e
-          );
+          this.logger.warn(`Failed to extract ${part.kind} for memory`, e);
         }
       }
-
-      return response;
-    };
+      if (memories.length > 0) await this.addMemories(memories);
+    })().catch((e) => this.logger.error("Failed to save media memories:", e));
+    this.pendingPromises.push(p);
   }
 
   /**
-   * Helper to queue memory insertions in the background without blocking the main flow.
+   * Queues the tool calls of a request as `tool` memories, if the `toolMemory` option is enabled.
    */
-  private queueMemory(content: string, role: string) {
-    const p = this.addMemory(content, role).catch((e) =>
-      console.error("Memori save failed:", e)
+  private captureToolCalls(calls: CapturedToolCall[], scope: MemoryScope) {
+    if (!this.toolMemory || calls.length === 0) return;
+    const memories = selectToolCalls(calls, this.toolMemory).map((call) => ({
+      ...toolMemory(call, this.toolMemory!),
+      role: "tool",
+      scope,
+    }));
+    if (memories.length === 0) return;
+    const p = this.addMemories(memories).catch((e) =>
+      this.logger.error("Failed to save tool call memories:", e)
     );
     this.pendingPromises.push(p);
   }
 
   /**
    * Adds a new memory to the vector store.
-   * Generates embedding and persists it.
+   * Generates embedding and persists it, or with a `writePolicy`, skips, merges or
+   * consolidates it when it nearly duplicates stored memories.
+   * @param content - The text to remember.
+   * @param role - The author of the memory (e.g. "user", "assistant").
+   * @param scope - Overrides for the current attribution (entity, process, session).
+   * @returns The ID of the memory holding the content.
+   */
+  async addMemory(content: string, role = "user", scope: MemoryScope = {}) {
+    await this.ready;
+    const memory = await this.prepareMemory({ content, role, scope });
+    const embedding = await this.getEmbedding(memory.content);
+    if (!this.writePolicy) {
+      return await this.db.insert(memory.content, embedding, memory.metadata);
+    }
+    return await this.queueWrite(memory, embedding, this.writePolicy);
+  }
+
+  /**
+   * Runs a write under the write policy after the ones queued before it.
+   */
+  private queueWrite(
+    memory: { content: string; metadata: MemoryMetadata },
+    embedding: number[],
+    policy: WritePolicy
+  ): Promise<string> {
+    const write = this.writeQueue.then(() =>
+      this.writeWithPolicy(memory, embedding, policy)
+    );
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Stores a memory under the write policy.
+   * @returns The ID of the memory that now holds the content (new or existing).
+   */
+  private async writeWithPolicy(
+    memory: { content: string; metadata: MemoryMetadata },
+    embedding: number[],
+    policy: WritePolicy
+  ): Promise<string> {
+    const { metadata } = memory;
+    const threshold = policy.threshold ?? 0.95;
+    const duplicates = (
+      await this.db.search(embedding, policy.candidates || 5, {
+        entityId: metadata.entityId,
+        processId: metadata.processId,
+        sessionId: metadata.sessionId,
+      })
+    ).filter(
+      (r) =>
+        (r.similarity ?? 0) >= threshold && r.metadata?.role === metadata.role
+    );
+    if (duplicates.length === 0) {
+      return await this.db.insert(memory.content, embedding, metadata);
+    }
+
+    const [closest] = duplicates;
+    if (policy.mode === "skip") {
+      this.logger.debug(`Skipped duplicate of memory ${closest.id}`);
+      return closest.id;
+    }
+    if (policy.mode === "consolidate") {
+      try {
+        return await this.consolidate(memory, duplicates, policy);
+      } catch (e) {
+        this.logger.warn("Memory consolidation failed, merging instead", e);
+      }
+    }
+
+    await this.db.update(closest.id, {
+      metadata: {
+        created_at: new Date().toISOString(),
+        hitCount: hitCount(closest) + 1,
+      },
+    });
+    return closest.id;
+  }
+
+  /**
+   * Asks the LLM to merge a new memory with its duplicates into one fact,
+   * stored as a new memory that supersedes them.
+   */
+  private async consolidate(
+    memory: { content: string; metadata: MemoryMetadata },
+    duplicates: MemoryResult[],
+    policy: WritePolicy
+  ): Promise<string> {
+    const instruction =
+      policy.consolidationPrompt ||
+      `Consolidate the following statements into a single, self-contained fact. If they conflict, the first statement is the most recent one. Output ONLY the fact.`;
+    const statements = [memory.content, ...duplicates.map((d) => d.content)];
+    const prompt = `${instruction}\n\nStatements:\n${statements
+      .map((statement) => `- ${statement}`)
+      .join("\n")}`;
+
+    const llm = this.internalLLM;
+    if (!llm) {
+      throw new ConfigurationError(
+        "The 'consolidate' write policy needs an 'llm' provider."
+      );
+    }
+    const consolidated = (await llm.generate(prompt)).trim();
+    if (!consolidated) throw new Error("The LLM returned an empty fact");
+
+    const id = await this.db.insert(
+      consolidated,
+      await this.getEmbedding(consolidated),
+      {
+        ...memory.metadata,
+        supersedes: duplicates.map((d) => d.id),
+        hitCount: duplicates.reduce((sum, d) => sum + hitCount(d), 1),
+      }
+    );
+    // Superseded memories stay readable by ID until the next prune
+    const now = new Date().toISOString();
+    for (const duplicate of duplicates) {
+      await this.db.update(duplicate.id, {
+        metadata: { expiresAt: now, supersededBy: id },
+      });
+    }
+    this.logger.debug(
+      `Consolidated ${duplicates.length} memories into memory ${id}`
+    );
+    return id;
+  }
+
+  /**
+   * Adds many memories at once, e.g. to import historical conversations.
+   * Items are processed in batches: each batch is embedded with a single `embedBatch`
+   * call (when the provider supports it) and written with a single `insertMany`.
+   * @param items - Texts, or memories with their own role, scope and metadata (e.g. `created_at`).
+   * With a `writePolicy`, each memory is checked for duplicates like in `addMemory`.
+   * @param options - Batch size, number of batches processed in parallel, and a progress callback.
+   * @returns The IDs of the memories holding the items, in input order.
+   */
+  async addMemories(
+    items: (string | NewMemory)[],
+    options: AddMemoriesOptions = {}
+  ): Promise<string[]> {
+    await this.ready;
+    const batchSize = Math.max(1, options.batchSize || 100);
+    const concurrency = Math.max(1, options.concurrency || 2);
+    // Resolve the attribution once, so every batch uses the caller's scope
+    const scope = this.currentScope();
+    const memories = items.map((item) =>
+      typeof item === "string" ? { content: item } : item
+    );
+
+    const batches: NewMemory[][] = [];
+    for (let i = 0; i < memories.length; i += batchSize) {
+      batches.push(memories.slice(i, i + batchSize));
+    }
+
+    const results: string[][] = new Array(batches.length);
+    let nextBatch = 0;
+    let completed = 0;
+    const worker = async () => {
+      while (nextBatch < batches.length) {
+        const index = nextBatch++;
+        results[index] = await this.addBatch(batches[index], scope);
+        completed += batches[index].length;
+        options.onProgress?.(completed, memories.length);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, batches.length) }, worker)
+    );
+    return results.flat();
+  }
+
+  /**
+   * Embeds and stores one batch of memories.
    */
-  async addMemory(content: string, role = "user") {
+  private async addBatch(
+    batch: NewMemory[],
+    scope: MemoryScope
+  ): Promise<string[]> {
+    const prepared = await Promise.all(
+      batch.map((item) =>
+        this.prepareMemory({ ...item, scope: { ...scope, ...item.scope } })
+      )
+    );
+    const embeddings = await this.getEmbeddings(prepared.map((m) => m.content));
+    const inputs = prepared.map((m, i) => ({
+      content: m.content,
+      embedding: embeddings[i],
+      metadata: m.metadata,
+    }));
+
+    // Duplicates are checked one memory at a time, including against the batch itself
+    const policy = this.writePolicy;
+    if (policy) {
+      const ids: string[] = [];
+      for (const input of inputs) {
+        ids.push(await this.queueWrite(input, input.embedding, policy));
+      }
+      return ids;
+    }
+
+    if (this.db.insertMany) {
+      return await this.db.insertMany(inputs);
+    }
+    const ids: string[] = [];
+    for (const input of inputs) {
+      ids.push(
+        await this.db.insert(input.content, input.embedding, input.metadata)
+      );
+    }
+    return ids;
+  }
+
+  /**
+   * Builds the content to embed and the metadata of a new memory
+   * (attribution, role and, if enabled, CLaRa compression).
+   */
+  private async prepareMemory(
+    item: NewMemory
+  ): Promise<{ content: string; metadata: MemoryMetadata }> {
+    const content = item.content;
     let contentToEmbed = content;
+    // Attribution comes from the scope only: metadata can't move a memory into another tenant
+    const { entityId, processId, sessionId, ...extra } = item.metadata || {};
     let metadata: any = {
-      role,
-      entityId: this.entityId || undefined,
-      processId: this.processId || undefined,
+      role: item.role || "user",
+      ...extra,
+      ...this.currentScope(item.scope),
     };
+    if (!("expiresAt" in metadata)) {
+      const ttl = this.ttlFor(metadata);
+      if (ttl !== undefined) {
+        metadata.expiresAt = new Date(Date.now() + ttl).toISOString();
+      }
+    }
 
     // CLaRa: Memory Compression
     if (this.claraConfig?.enableCompression && this.internalLLM) {
@@ -610,20 +1328,577 @@ export class Memori {
       }
     }
 
-    const embedding = await this.getEmbedding(contentToEmbed);
-    return await this.db.insert(contentToEmbed, embedding, metadata);
+    return { content: contentToEmbed, metadata };
+  }
+
+  /**
+   * Lifetime of a new memory under the TTL policy: per entity, then per role, then the default.
+   */
+  private ttlFor(metadata: MemoryMetadata): number | undefined {
+    const { byEntity, byRole } = this.ttlPolicy;
+    return (
+      (metadata.entityId ? byEntity?.[metadata.entityId] : undefined) ??
+      (metadata.role ? byRole?.[metadata.role] : undefined) ??
+      this.ttlPolicy.default
+    );
   }
 
   /**
    * Searches for memories similar to a given query string.
+   * When a session is attributed, results are retrieved according to the session policy
+   * (current session only, all of the entity's sessions, or a blend of both).
+   * With reranking, results carry their `score` and its `scoreBreakdown`.
+   * @param query - The text to search for.
+   * @param limit - The maximum number of results to return.
+   * @param options - Retrieval mode, fusion weights, scope and session policy. Defaults to the `search` config option.
    */
-  async search(query: string, limit = 5) {
+  async search(
+    query: string,
+    limit = 5,
+    options: SearchOptions = {}
+  ): Promise<MemoryResult[]> {
+    await this.ready;
+    const opts = { ...this.searchDefaults, ...options };
+    opts.rerank =
+      opts.rerank === false || (!this.rerankOptions && !opts.rerank)
+        ? false
+        : { ...this.rerankOptions, ...opts.rerank };
+
+    const results = await this.searchBySession(query, limit, opts);
+    if (opts.rerank && opts.rerank.trackAccess) {
+      this.recordAccess(results);
+    }
+    return results;
+  }
+
+  /**
+   * Retrieves memories according to the session policy.
+   */
+  private async searchBySession(
+    query: string,
+    limit: number,
+    opts: SearchOptions
+  ): Promise<MemoryResult[]> {
     const embedding = await this.getEmbedding(query);
-    const filter = {
-      entityId: this.entityId || undefined,
-      processId: this.processId || undefined,
+    const scope = this.currentScope(opts.scope);
+    const filter: MemoryFilter = {
+      entityId: scope.entityId,
+      processId: scope.processId,
+      metadata: opts.filter,
+    };
+
+    const policy = { ...this.sessionPolicy, ...opts.session };
+    const sessionMode = policy.mode || "blend";
+    if (!scope.sessionId || sessionMode === "entity") {
+      return await this.runSearch(query, embedding, limit, filter, opts);
+    }
+    if (sessionMode === "session") {
+      return await this.runSearch(
+        query,
+        embedding,
+        limit,
+        { ...filter, sessionId: scope.sessionId },
+        opts
+      );
+    }
+
+    // Blend: current session and the entity's other sessions, each with its own quota
+    const otherSessions = { sessionId: { $ne: scope.sessionId } };
+    const [current, others] = await Promise.all([
+      this.runSearch(
+        query,
+        embedding,
+        limit,
+        { ...filter, sessionId: scope.sessionId },
+        opts
+      ),
+      this.runSearch(
+        query,
+        embedding,
+        limit,
+        {
+          ...filter,
+          metadata: filter.metadata
+            ? { $and: [filter.metadata, otherSessions] }
+            : otherSessions,
+        },
+        opts
+      ),
+    ]);
+
+    const currentQuota = policy.currentSessionQuota ?? Math.ceil(limit / 2);
+    const otherQuota = policy.otherSessionsQuota ?? limit - currentQuota;
+    return blendByQuota(current, others, currentQuota, otherQuota, limit);
+  }
+
+  /**
+   * Runs a single retrieval against the store and applies the similarity threshold.
+   */
+  private async runSearch(
+    query: string,
+    embedding: number[],
+    limit: number,
+    filter: MemoryFilter,
+    opts: SearchOptions
+  ): Promise<MemoryResult[]> {
+    let results: MemoryResult[];
+    if (opts.rerank) {
+      const candidates = opts.rerank.candidates || limit * 4;
+      results = rerank(
+        await this.rankedSearch(query, embedding, candidates, filter, opts),
+        opts.rerank
+      );
+    } else {
+      results = await this.rankedSearch(query, embedding, limit, filter, opts);
+    }
+    const { minSimilarity } = opts;
+    if (minSimilarity !== undefined) {
+      results = results.filter(
+        (r) => r.similarity === undefined || r.similarity >= minSimilarity
+      );
+    }
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Counts the retrieval of memories (`accessCount`, `lastAccessedAt`) in the background,
+   * for the access frequency component of reranking.
+   */
+  private recordAccess(results: MemoryResult[]): void {
+    const ids = results.map((r) => r.id);
+    this.accessQueue = this.accessQueue.then(async () => {
+      const lastAccessedAt = new Date().toISOString();
+      for (const id of ids) {
+        try {
+          const memory = await this.db.get(id);
+          if (!memory) continue;
+          const accessCount = (Number(memory.metadata?.accessCount) || 0) + 1;
+          await this.db.update(id, {
+            metadata: { accessCount, lastAccessedAt },
+          });
+        } catch (e) {
+          this.logger.warn(`Failed to record access of memory ${id}`, e);
+        }
+      }
+    });
+    this.pendingPromises.push(this.accessQueue);
+  }
+
+  /**
+   * Runs a single retrieval (vector, lexical or hybrid) against the store.
+   */
+  private async rankedSearch(
+    query: string,
+    embedding: number[],
+    limit: number,
+    filter: MemoryFilter,
+    opts: SearchOptions
+  ): Promise<MemoryResult[]> {
+    const mode = opts.mode || "vector";
+
+    if (mode === "vector") {
+      return await this.db.search(embedding, limit, filter);
+    }
+    if (!this.db.lexicalSearch) {
+      this.logger.warn(
+        `Search mode '${mode}' is not supported by the configured vector store, falling back to vector search.`
+      );
+      return await this.db.search(embedding, limit, filter);
+    }
+    if (mode === "lexical") {
+      return await this.db.lexicalSearch(query, embedding, limit, filter);
+    }
+
+    // Hybrid: fuse both rankings (RRF)
+    const candidates = opts.candidates || limit * 4;
+    const [vectorResults, lexicalResults] = await Promise.all([
+      this.db.search(embedding, candidates, filter),
+      this.db.lexicalSearch(query, embedding, candidates, filter),
+    ]);
+    return reciprocalRankFusion(
+      [
+        { results: vectorResults, weight: opts.vectorWeight ?? 1 },
+        { results: lexicalResults, weight: opts.lexicalWeight ?? 1 },
+      ],
+      opts.rrfK ?? 60
+    ).slice(0, limit);
+  }
+
+  /**
+   * Retrieves a single memory by ID.
+   * @returns The memory, or null if it does not exist.
+   */
+  async getMemory(id: string): Promise<MemoryRecord | null> {
+    return await this.db.get(id);
+  }
+
+  /**
+   * Lists stored memories page by page, oldest first.
+   * Defaults to the current attribution scope when no filter is given.
+   * @param filter - Criteria to filter memories by (e.g., entityId).
+   * @param cursor - The `nextCursor` returned by the previous page.
+   * @param limit - Page size.
+   */
+  async listMemories(
+    filter: MemoryFilter = this.scopeFilter(),
+    cursor?: string | null,
+    limit = 50
+  ): Promise<MemoryPage> {
+    return await this.db.list(filter, cursor, limit);
+  }
+
+  /**
+   * Updates an existing memory.
+   * If the content changes, the memory is re-embedded so that search stays consistent.
+   * @returns The updated memory, or null if it does not exist.
+   */
+  async updateMemory(
+    id: string,
+    update: { content?: string; metadata?: MemoryMetadata }
+  ): Promise<MemoryRecord | null> {
+    const embedding =
+      update.content !== undefined
+        ? await this.getEmbedding(update.content)
+        : undefined;
+    return await this.db.update(id, { ...update, embedding });
+  }
+
+  /**
+   * Counts stored memories.
+   * Defaults to the current attribution scope when no filter is given.
+   */
+  async countMemories(
+    filter: MemoryFilter = this.scopeFilter()
+  ): Promise<number> {
+    return await this.db.count(filter);
+  }
+
+  /**
+   * Deletes a memory by ID.
+   */
+  async deleteMemory(id: string): Promise<void> {
+    await this.db.delete(id);
+  }
+
+  /**
+   * Writes memories to a stream as JSON Lines, one `MemoryExportRecord` per line.
+   * The format is store-agnostic: use `import` to load it into any vector store.
+   * The stream is not closed.
+   * @param stream - Destination, e.g. `fs.createWriteStream("memories.jsonl")`.
+   * @param options - Filter (defaults to the current attribution scope) and whether to include vectors.
+   */
+  async export(
+    stream: ExportSink,
+    options: ExportOptions = {}
+  ): Promise<ExportReport> {
+    const filter = options.filter ?? this.scopeFilter();
+    const batchSize = Math.max(1, options.batchSize || 500);
+    const total = await this.db.count(filter);
+    const storedModel =
+      options.includeEmbeddings && this.db.getEmbeddingInfo
+        ? await this.db.getEmbeddingInfo()
+        : null;
+    const currentModel = embeddingInfo(this.embeddingProvider);
+
+    let exported = 0;
+    let cursor: string | null = null;
+    do {
+      const page = await this.db.list(filter, cursor, batchSize);
+      const lines = page.items.map((record) => {
+        const model = options.includeEmbeddings
+          ? (storedModel ?? {
+              ...currentModel,
+              dimension: record.embedding.length,
+            })
+          : null;
+        return JSON.stringify(toExportRecord(record, model)) + "\n";
+      });
+      if (lines.length > 0) await writeChunk(stream, lines.join(""));
+
+      exported += page.items.length;
+      options.onProgress?.(exported, total);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return { exported };
+  }
+
+  /**
+   * Reads memories written by `export` into the configured vector store.
+   * Records keep their metadata and timestamp, but get new IDs in this store.
+   * Exported vectors are reused if they come from the configured embedding model, other records are embedded.
+   * @param stream - JSONL source, e.g. `fs.createReadStream("memories.jsonl")`.
+   * @param options - Re-embedding, conflict handling and progress.
+   * @throws ImportError if a line is not a valid memory record. Records before it are already imported.
+   */
+  async import(
+    stream: ImportSource,
+    options: ImportOptions = {}
+  ): Promise<ImportReport> {
+    const batchSize = Math.max(1, options.batchSize || 100);
+    const onConflict = options.onConflict || "skip";
+    const report: ImportReport = {
+      imported: 0,
+      overwritten: 0,
+      skipped: 0,
+      reembedded: 0,
+    };
+    const target = {
+      ...embeddingInfo(this.embeddingProvider),
+      dimension:
+        (this.db.getEmbeddingInfo && (await this.db.getEmbeddingInfo()))
+          ?.dimension ?? null,
+    };
+
+    let processed = 0;
+    let batch: MemoryExportRecord[] = [];
+    const flush = async () => {
+      await this.importBatch(batch, options, onConflict, target, report);
+      processed += batch.length;
+      batch = [];
+      options.onProgress?.(processed);
+    };
+
+    for await (const { line, number } of readLines(stream)) {
+      batch.push(parseExportRecord(line, number));
+      if (batch.length >= batchSize) await flush();
+    }
+    if (batch.length > 0) await flush();
+
+    this.logger.info(
+      `Imported ${report.imported} memories (${report.overwritten} overwritten, ${report.skipped} skipped, ${report.reembedded} re-embedded).`
+    );
+    return report;
+  }
+
+  /**
+   * Embeds (if needed) and writes one batch of imported records.
+   * @param target - The configured model. Exported vectors of another model are not reused.
+   */
+  private async importBatch(
+    records: MemoryExportRecord[],
+    options: ImportOptions,
+    onConflict: ImportConflictPolicy,
+    target: Omit<EmbeddingInfo, "dimension"> & { dimension: number | null },
+    report: ImportReport
+  ): Promise<void> {
+    const writes: { record: MemoryExportRecord; overwrite: boolean }[] = [];
+    for (const record of records) {
+      const exists =
+        onConflict !== "duplicate" &&
+        record.id !== "" &&
+        (await this.db.get(record.id)) !== null;
+      if (exists && onConflict === "skip") {
+        report.skipped++;
+        continue;
+      }
+      writes.push({ record, overwrite: exists });
+    }
+
+    const reusable = ({
+      embedding,
+      embedding_model: model,
+    }: MemoryExportRecord) =>
+      !options.reembed &&
+      !!embedding &&
+      !!model &&
+      model.provider === target.provider &&
+      model.model === target.model &&
+      embedding.length === (target.dimension ?? model.dimension);
+    const toEmbed = writes.filter(({ record }) => !reusable(record));
+    const embeddings = await this.getEmbeddings(
+      toEmbed.map(({ record }) => embeddingText(record))
+    );
+    report.reembedded += toEmbed.length;
+
+    const inputs: MemoryInput[] = [];
+    for (const { record, overwrite } of writes) {
+      const index = toEmbed.findIndex((write) => write.record === record);
+      const embedding =
+        index >= 0 ? embeddings[index] : (record.embedding as number[]);
+      if (overwrite) {
+        await this.db.update(record.id, {
+          content: record.content,
+          embedding,
+          metadata: record.metadata,
+        });
+        report.overwritten++;
+      } else {
+        inputs.push({
+          content: record.content,
+          embedding,
+          metadata: record.created_at
+            ? { ...record.metadata, created_at: record.created_at }
+            : record.metadata,
+        });
+      }
+    }
+
+    if (inputs.length === 0) return;
+    if (this.db.insertMany) {
+      await this.db.insertMany(inputs);
+    } else {
+      for (const input of inputs) {
+        await this.db.insert(input.content, input.embedding, input.metadata);
+      }
+    }
+    report.imported += inputs.length;
+  }
+
+  /**
+   * Re-embeds all stored memories with another embedding provider, then switches to it.
+   *
+   * Vectors are rebuilt from the stored content (the original content for CLaRa-compressed memories)
+   * into a new vector table, which replaces the current one atomically once every memory is done.
+   * Search keeps using the current vectors meanwhile. If the job is interrupted, calling `reembed`
+   * again with the same provider resumes where it stopped.
+   * @throws ConfigurationError if the vector store doesn't support re-embedding.
+   * @throws EmbeddingMismatchError if the provider returns vectors of an unexpected dimension.
+   */
+  async reembed(options: ReembedOptions): Promise<ReembedReport> {
+    const db = this.db;
+    if (
+      !db.prepareReembed ||
+      !db.pendingReembed ||
+      !db.writeReembed ||
+      !db.completeReembed
+    ) {
+      throw new ConfigurationError(
+        "The configured vector store does not support re-embedding."
+      );
+    }
+    // Memories still being stored would miss the new table
+    await this.augmentation.wait();
+
+    const dimension =
+      options.dimension ??
+      (await options.provider.embed("dimension probe")).length;
+    const provider = this.withEmbeddingCache(options.provider, dimension);
+    const target: EmbeddingInfo = {
+      ...embeddingInfo(options.provider),
+      dimension,
+    };
+    const batchSize = options.batchSize ?? 100;
+    const total = await db.count();
+
+    await db.prepareReembed(target);
+    let reembedded = 0;
+    while (true) {
+      const { items, remaining } = await db.pendingReembed(batchSize);
+      if (items.length === 0) break;
+
+      const texts = items.map(embeddingText);
+      const embeddings = provider.embedBatch
+        ? await provider.embedBatch(texts)
+        : await Promise.all(texts.map((text) => provider.embed(text)));
+      const invalid = embeddings.find((e) => e.length !== dimension);
+      if (invalid) {
+        throw new EmbeddingMismatchError(
+          `Expected ${dimension}-dimensional vectors, but the provider returned ${invalid.length} dimensions`,
+          undefined,
+          target
+        );
+      }
+
+      await db.writeReembed(
+        items.map((item, i) => ({ id: item.id, embedding: embeddings[i] }))
+      );
+      reembedded += items.length;
+      options.onProgress?.(total - remaining + items.length, total);
+    }
+    await db.completeReembed();
+
+    this.embeddingProvider = provider;
+    this.embeddingDimension = dimension;
+    if (provider instanceof CachedEmbeddingProvider) {
+      this.stats.embeddingCache = provider.stats;
+    }
+    this.logger.info(
+      `Re-embedded ${reembedded} memories with ${target.provider}${
+        target.model ? ` (${target.model})` : ""
+      }, ${dimension} dimensions.`
+    );
+    return { reembedded, info: target };
+  }
+
+  /**
+   * Checks that the stored vectors were produced by the configured embedding model,
+   * and records the model if the store has none yet (or holds no memories).
+   * @throws EmbeddingMismatchError if memories were embedded with another model.
+   */
+  private async verifyEmbeddingInfo(): Promise<void> {
+    if (!this.db.getEmbeddingInfo || !this.db.setEmbeddingInfo) return;
+
+    const current = {
+      ...embeddingInfo(this.embeddingProvider),
+      dimension: this.embeddingDimension,
     };
-    return await this.db.search(embedding, limit, filter);
+    const stored = await this.db.getEmbeddingInfo();
+    if (
+      stored &&
+      stored.provider === current.provider &&
+      stored.model === current.model &&
+      (current.dimension === undefined ||
+        stored.dimension === current.dimension)
+    ) {
+      return;
+    }
+    // An empty store can simply adopt the configured model
+    if (stored && (await this.db.count()) > 0) {
+      throw new EmbeddingMismatchError(
+        `Stored memories were embedded with ${describeModel(
+          stored
+        )}, but ${describeModel(
+          current
+        )} is configured. Use memori.reembed() to switch models.`,
+        stored,
+        current
+      );
+    }
+    await this.db.setEmbeddingInfo(current);
+  }
+
+  /**
+   * Wraps a provider with the configured embedding cache, if any.
+   */
+  private withEmbeddingCache(
+    provider: EmbeddingProvider,
+    dimension: number
+  ): EmbeddingProvider {
+    if (!(this.embeddingProvider instanceof CachedEmbeddingProvider)) {
+      return provider;
+    }
+    return new CachedEmbeddingProvider(provider, {
+      cache: this.embeddingProvider.cache,
+      dimension,
+    });
+  }
+
+  /**
+   * Resolves the attribution for an operation.
+   * Precedence: explicit overrides, then the active `withScope` scope, then the instance attribution.
+   */
+  private currentScope(overrides: MemoryScope = {}): MemoryScope {
+    const active = this.scopeStorage.getStore() || {};
+    return {
+      entityId:
+        overrides.entityId ?? active.entityId ?? (this.entityId || undefined),
+      processId:
+        overrides.processId ??
+        active.processId ??
+        (this.processId || undefined),
+      sessionId:
+        overrides.sessionId ??
+        active.sessionId ??
+        (this.sessionId || undefined),
+    };
+  }
+
+  /**
+   * Builds the store filter for the current attribution.
+   */
+  private scopeFilter(): MemoryFilter {
+    return this.currentScope();
   }
 
   /**
@@ -633,6 +1908,16 @@ export class Memori {
     return await this.embeddingProvider.embed(text);
   }
 
+  /**
+   * Generates embeddings for several texts, batched if the provider supports it.
+   */
+  private async getEmbeddings(texts: string[]): Promise<number[][]> {
+    if (this.embeddingProvider.embedBatch) {
+      return await this.embeddingProvider.embedBatch(texts);
+    }
+    return await Promise.all(texts.map((text) => this.getEmbedding(text)));
+  }
+
   // --- CLaRa Helpers ---
 
   /**
@@ -678,3 +1963,151 @@ export class Memori {
     return await this.internalLLM.generate(prompt);
   }
 }
+
+/**
+ * Number of times a memory was written (1 unless merged or consolidated).
+ */
+function hitCount(memory: MemoryRecord): number {
+  return Number(memory.metadata?.hitCount) || 1;
+}
+
+/**
+ * Merges results from the current session and from other sessions.
+ * Each side contributes up to its quota; unused slots are back-filled with the best leftovers.
+ * The merged list is ordered by relevance (fused score if present, otherwise distance).
+ */
+function blendByQuota(
+  current: MemoryResult[],
+  others: MemoryResult[],
+  currentQuota: number,
+  otherQuota: number,
+  limit: number
+): MemoryResult[] {
+  const byRelevance = (a: MemoryResult, b: MemoryResult) =>
+    a.score !== undefined && b.score !== undefined
+      ? b.score - a.score
+      : a.distance - b.distance;
+
+  const picked = [
+    ...current.slice(0, currentQuota),
+    ...others.slice(0, otherQuota),
+  ];
+  const leftovers = [
+    ...current.slice(currentQuota),
+    ...others.slice(otherQuota),
+  ].sort(byRelevance);
+
+  while (picked.length < limit && leftovers.length > 0) {
+    picked.push(leftovers.shift()!);
+  }
+  return picked.sort(byRelevance).slice(0, limit);
+}
+
+/**
+ * Identifies the model of an embedding provider (looking through the embedding cache).
+ */
+function embeddingInfo(
+  provider: EmbeddingProvider
+): Omit<EmbeddingInfo, "dimension"> {
+  const inner =
+    provider instanceof CachedEmbeddingProvider ? provider.provider : provider;
+  const name = inner.name || inner.constructor?.name;
+  return {
+    provider: name && name !== "Object" ? name : "custom",
+    model: inner.model ?? null,
+  };
+}
+
+/**
+ * The text a stored memory is embedded from: the original content for CLaRa-compressed memories.
+ */
+function embeddingText(memory: {
+  content: string;
+  metadata?: MemoryMetadata | null;
+}): string {
+  return memory.metadata?.is_compressed && memory.metadata.original_content
+    ? memory.metadata.original_content
+    : memory.content;
+}
+
+/**
+ * What a request contributes to memory: the new user message, its media and the tool results.
+ */
+interface RequestTurn {
+  userText: string;
+  media: MediaPart[];
+  toolCalls: CapturedToolCall[];
+}
+
+/**
+ * Reads a Google conversation (`contents` as a string, a part, a content, or an array of parts or contents).
+ * The search query is the last user turn with text (turns with only function responses or media are skipped);
+ * its text is only saved if it is the latest turn.
+ */
+function googleRequestTurn(contents: unknown): {
+  query: string;
+  turn: RequestTurn;
+} {
+  const normalized = googleContents(contents);
+  const last = normalized[normalized.length - 1];
+  let query = "";
+  let userText = "";
+  for (let i = normalized.length - 1; i >= 0 && !query; i--) {
+    if (normalized[i].role !== "user") continue;
+    query = googlePartsText(normalized[i].parts);
+    if (i === normalized.length - 1) userText = query;
+  }
+  return {
+    query,
+    turn: {
+      userText,
+      media: last?.role === "user" ? googleMediaParts(last.parts) : [],
+      toolCalls: googleToolCalls(normalized),
+    },
+  };
+}
+
+/**
+ * Normalizes Google `contents` to a list of contents. Parts without a content are a single user turn.
+ */
+function googleContents(contents: unknown): { role: string; parts: any[] }[] {
+  if (contents === undefined || contents === null) return [];
+  const list = Array.isArray(contents) ? contents : [contents];
+  if (!list.some((c) => c && typeof c === "object" && "parts" in c)) {
+    return list.length > 0 ? [{ role: "user", parts: list }] : [];
+  }
+  return list.map((c: any) => ({
+    role: c?.role || "user",
+    parts: Array.isArray(c?.parts) ? c.parts : [],
+  }));
+}
+
+/**
+ * Joins the text of Google parts (strings or `{ text }` parts; thoughts are skipped).
+ */
+function googlePartsText(parts: unknown): string {
+  if (!Array.isArray(parts)) return "";
+  return parts
+    .map((part) =>
+      typeof part === "string"
+        ? part
+        : part && typeof part.text === "string" && !part.thought
+          ? part.text
+          : ""
+    )
+    .filter(Boolean)
+    .join("\n")
+    .trim();
+}
+
+function describeModel(
+  info: Omit<EmbeddingInfo, "dimension"> & { dimension?: number }
+): string {
+  const details = [
+    info.model,
+    info.dimension !== undefined && `${info.dimension} dimensions`,
+  ].filter(Boolean);
+  return details.length > 0
+    ? `${info.provider} (${details.join(", ")})`
+    : info.provider;
+}
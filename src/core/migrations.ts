@@ -0,0 +1,59 @@
+import { MigrationReport, MigrationStep } from "./types";
+import { SchemaVersionError } from "./errors";
+
+/**
+ * A versioned schema change of a built-in store.
+ * Migrations must be idempotent: databases created before schema versioning
+ * existed start at version 0 and replay every migration.
+ * @typeParam T - Store-specific context used to run statements.
+ */
+export interface Migration<T> extends MigrationStep {
+  up(context: T): Promise<void>;
+}
+
+/**
+ * Returns the migrations newer than the current schema version, in order.
+ * @param migrations - All migrations of a store, ordered by version.
+ * @param currentVersion - Version recorded in the database (0 if none).
+ * @param storeName - Used in error messages.
+ * @throws SchemaVersionError if the database was written by a newer schema version.
+ */
+export function pendingMigrations<T>(
+  migrations: Migration<T>[],
+  currentVersion: number,
+  storeName: string
+): Migration<T>[] {
+  const latest = latestVersion(migrations);
+  if (currentVersion > latest) {
+    throw new SchemaVersionError(
+      `${storeName} database is at schema version ${currentVersion}, but this version of memori-js only supports up to ${latest}. Please upgrade memori-js.`
+    );
+  }
+  return migrations.filter((m) => m.version > currentVersion);
+}
+
+/**
+ * Highest schema version known to a list of migrations.
+ */
+export function latestVersion(migrations: MigrationStep[]): number {
+  return migrations.reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+/**
+ * Builds the report of a migration run.
+ */
+export function migrationReport(
+  fromVersion: number,
+  migrations: MigrationStep[],
+  dryRun: boolean
+): MigrationReport {
+  return {
+    fromVersion,
+    toVersion: migrations.length > 0 ? latestVersion(migrations) : fromVersion,
+    migrations: migrations.map(({ version, description }) => ({
+      version,
+      description,
+    })),
+    dryRun,
+  };
+}
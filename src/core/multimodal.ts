@@ -0,0 +1,161 @@
+import { createHash } from "crypto";
+import { MediaPart, MemoryMetadata, MultimodalExtractor } from "./types";
+
+export interface CallbackMultimodalOptions {
+  /** Describes an image (or other media), e.g. with a vision model */
+  caption?: (part: MediaPart) => Promise<string | null>;
+  /** Reads the text of an image or document */
+  ocr?: (part: MediaPart) => Promise<string | null>;
+}
+
+/**
+ * Multimodal extractor built from a captioning and/or an OCR callback.
+ * Without callbacks (or when they return nothing), media are remembered by a text-only
+ * placeholder with their kind, name and type, e.g. `[Image: receipt.png (image/png)]`.
+ */
+export class CallbackMultimodalExtractor implements MultimodalExtractor {
+  constructor(private options: CallbackMultimodalOptions = {}) {}
+
+  async extract(part: MediaPart): Promise<string | null> {
+    const [caption, text] = await Promise.all([
+      this.options.caption?.(part),
+      this.options.ocr?.(part),
+    ]);
+    const placeholder = describeMedia(part);
+    if (!caption && !text) return placeholder;
+    return [
+      caption ? `${placeholder} ${caption.trim()}` : placeholder,
+      text ? `Text: ${text.trim()}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+}
+
+/**
+ * Extracts the text of an OpenAI or Anthropic message content: a string, or the `text` parts of an array
+ * (images, audio, documents, tool_use and tool_result blocks are skipped).
+ */
+export function contentText(content: unknown): string {
+  if (typeof content === "string") return content.trim();
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((part) => part?.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n")
+    .trim();
+}
+
+/**
+ * Media parts of OpenAI message content (`image_url`, `input_audio` and `file` parts).
+ */
+export function openAIMediaParts(content: unknown): MediaPart[] {
+  if (!Array.isArray(content)) return [];
+  return content.flatMap((part): MediaPart[] => {
+    if (part?.type === "image_url" && part.image_url?.url) {
+      return [fromUrl("image", part.image_url.url)];
+    }
+    if (part?.type === "input_audio" && part.input_audio?.data) {
+      return [
+        {
+          kind: "audio",
+          mimeType: part.input_audio.format
+            ? `audio/${part.input_audio.format}`
+            : undefined,
+          data: part.input_audio.data,
+        },
+      ];
+    }
+    if (part?.type === "file" && part.file) {
+      const file = part.file;
+      return [
+        {
+          ...(file.file_data
+            ? fromUrl("file", file.file_data)
+            : { kind: "file" as const, url: file.file_id }),
+          name: file.filename,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+/**
+ * Media blocks of Anthropic message content (`image` and `document` blocks).
+ */
+export function anthropicMediaParts(content: unknown): MediaPart[] {
+  if (!Array.isArray(content)) return [];
+  return content.flatMap((block): MediaPart[] => {
+    if (block?.type !== "image" && block?.type !== "document") return [];
+    const kind = block.type === "image" ? "image" : "file";
+    const source = block.source || {};
+    return [
+      {
+        kind,
+        mimeType: source.media_type,
+        url: source.url ?? source.file_id,
+        data: source.type === "base64" ? source.data : undefined,
+        name: block.title,
+      },
+    ];
+  });
+}
+
+/**
+ * Media parts of Google content parts (`inlineData` and `fileData` parts).
+ */
+export function googleMediaParts(parts: unknown): MediaPart[] {
+  if (!Array.isArray(parts)) return [];
+  return parts.flatMap((part): MediaPart[] => {
+    const media = part?.inlineData || part?.fileData;
+    if (!media) return [];
+    return [
+      {
+        kind: kindOf(media.mimeType),
+        mimeType: media.mimeType,
+        url: media.fileUri,
+        data: media.data,
+        name: media.displayName,
+      },
+    ];
+  });
+}
+
+/**
+ * Metadata stored with a media memory: its kind and type, a SHA-256 hash of its data (or URL),
+ * and the URL of referenced media. Inlined data itself is not stored.
+ */
+export function mediaMetadata(part: MediaPart): MemoryMetadata {
+  return {
+    media_kind: part.kind,
+    ...(part.mimeType && { media_mime_type: part.mimeType }),
+    ...(part.name && { media_name: part.name }),
+    ...(part.url && { media_url: part.url }),
+    media_hash: createHash("sha256")
+      .update(part.data ?? part.url ?? "")
+      .digest("hex"),
+  };
+}
+
+function describeMedia(part: MediaPart): string {
+  const label = { image: "Image", audio: "Audio", file: "File" }[part.kind];
+  const name = part.name ? `: ${part.name}` : "";
+  const type = part.mimeType ? ` (${part.mimeType})` : "";
+  return `[${label}${name}${type}]`;
+}
+
+/**
+ * Parses `data:` URLs into inlined media; other URLs are kept as references.
+ */
+function fromUrl(kind: MediaPart["kind"], url: string): MediaPart {
+  const match = /^data:([^;,]+)?(?:;base64)?,(.*)$/s.exec(url);
+  if (!match) return { kind, url };
+  return { kind, mimeType: match[1], data: match[2] };
+}
+
+function kindOf(mimeType?: string): MediaPart["kind"] {
+  if (mimeType?.startsWith("image/")) return "image";
+  if (mimeType?.startsWith("audio/")) return "audio";
+  return "file";
+}
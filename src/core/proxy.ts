@@ -1,5 +1,8 @@
 import OpenAI from "openai";
 import { Memori } from "./memory";
+import { tapStream } from "./streaming";
+import { contentText } from "./multimodal";
+import { MemoryScope } from "./types";
 
 /**
  * Creates a transparent Proxy around the OpenAI client.
@@ -8,9 +11,14 @@ import { Memori } from "./memory";
  *
  * @param client - The original OpenAI client instance.
  * @param memori - The Memori instance to use for storage and retrieval.
+ * @param scope - Optional attribution for every call made through this proxy (e.g. the current request's user).
  * @returns A proxied OpenAI client that behaves exactly like the original but with memory superpowers.
  */
-export function createMemoriProxy(client: OpenAI, memori: Memori): OpenAI {
+export function createMemoriProxy(
+  client: OpenAI,
+  memori: Memori,
+  scope?: MemoryScope
+): OpenAI {
   return new Proxy(client, {
     get(target, prop, receiver) {
       // Intercept access to the 'chat' property
@@ -24,11 +32,9 @@ export function createMemoriProxy(client: OpenAI, memori: Memori): OpenAI {
                 create: async (
                   args: OpenAI.Chat.ChatCompletionCreateParams
                 ) => {
-                  return handleChatCompletion(
-                    chatTarget.completions,
-                    args,
-                    memori
-                  );
+                  const run = () =>
+                    handleChatCompletion(chatTarget.completions, args, memori);
+                  return scope ? memori.withScope(scope, run) : run();
                 },
               };
             }
@@ -62,33 +68,21 @@ async function handleChatCompletion(
     .slice()
     .reverse()
     .find((m) => m.role === "user");
+  // Array content (text, images, files) is searched and saved by its text parts
+  const userContent = lastMsg ? contentText(lastMsg.content) : "";
   let context = "";
 
-  if (lastMsg && typeof lastMsg.content === "string") {
-    const query = lastMsg.content;
-
+  if (userContent) {
     // 2. SEARCH MEMORY
-    try {
-      const results = await memori.search(query, 5);
-      if (results.length > 0) {
-        context = results
-          .map((r) => `- ${r.content} (score: ${r.distance})`)
-          .join("\n");
-        // console.log("Injecting Context:", context);
-      }
-    } catch (e) {
-      console.error("Memori search failed:", e);
-    }
+    // Assembled with the instance's `context` options (top K, token budget, templates)
+    context = await memori.retrieveContext(userContent);
   }
 
   // 3. INJECT CONTEXT
   // Add a system message with context if found
   const newMessages = [...args.messages];
   if (context) {
-    newMessages.unshift({
-      role: "system",
-      content: `Use the following memory context to answer the user if relevant:\n${context}`,
-    });
+    newMessages.unshift({ role: "system", content: context });
   }
 
   // 4. EXECUTE CALL
@@ -98,19 +92,30 @@ async function handleChatCompletion(
   });
 
   // 5. AUTO-SAVE (Background)
-  if (lastMsg && typeof lastMsg.content === "string") {
-    memori
-      .addMemory(lastMsg.content, "user")
-      .catch((e) => console.error("Failed to save user memory", e));
+  if (userContent) {
+    // Resolved now: a stream may be consumed outside of the caller's scope
+    const scope = memori.getScope();
+
+    // Streaming response: save once the consumer has read the whole stream
+    if (args.stream) {
+      let aiContent = "";
+      return tapStream(response as any, {
+        onChunk: (chunk: any) => {
+          aiContent += chunk.choices?.[0]?.delta?.content || "";
+        },
+        onComplete: () => {
+          memori.queueMemory(userContent, "user", scope);
+          if (aiContent) memori.queueMemory(aiContent, "assistant", scope);
+        },
+      });
+    }
+
+    memori.queueMemory(userContent, "user", scope);
 
     // Type guard for non-streaming response; saving assistant memory
     if ("choices" in response) {
       const aiContent = response.choices[0].message.content;
-      if (aiContent) {
-        memori
-          .addMemory(aiContent, "assistant")
-          .catch((e) => console.error("Failed to save AI memory", e));
-      }
+      if (aiContent) memori.queueMemory(aiContent, "assistant", scope);
     }
   }
 
@@ -0,0 +1,66 @@
+import { isoTimestamp } from "./archive";
+import { MemoryResult, RerankOptions } from "./types";
+
+const DAY = 24 * 3600 * 1000;
+
+/** Number of accesses at which the access component reaches 0.5 */
+const ACCESS_MIDPOINT = 5;
+
+/**
+ * Reranks search results by a weighted average of similarity, recency, importance and access frequency.
+ *
+ * - recency: `0.5 ^ (age / halfLife)`, from `created_at` (0 when unknown)
+ * - importance: the `importance` metadata clamped to [0, 1] (0.5 when not set)
+ * - access: `accessCount / (accessCount + 5)`
+ *
+ * @param results - Candidates from the store.
+ * @param options - Weights and half-life.
+ * @param now - Reference time in milliseconds, for reproducible scores.
+ * @returns Copies of the results with `score` and `scoreBreakdown`, best first.
+ */
+export function rerank(
+  results: MemoryResult[],
+  options: RerankOptions = {},
+  now = Date.now()
+): MemoryResult[] {
+  const weights = {
+    similarity: options.similarityWeight ?? 0.6,
+    recency: options.recencyWeight ?? 0.2,
+    importance: options.importanceWeight ?? 0.1,
+    access: options.accessWeight ?? 0.1,
+  };
+  const total =
+    weights.similarity + weights.recency + weights.importance + weights.access;
+  const halfLife = options.halfLife ?? 30 * DAY;
+
+  return results
+    .map((result) => {
+      const metadata = result.metadata || {};
+      const similarity = result.similarity ?? 0;
+      const createdAt = Date.parse(isoTimestamp(metadata.created_at) || "");
+      const recency = isNaN(createdAt)
+        ? 0
+        : Math.pow(0.5, Math.max(0, now - createdAt) / halfLife);
+      const importance =
+        typeof metadata.importance === "number"
+          ? Math.min(1, Math.max(0, metadata.importance))
+          : 0.5;
+      const accessCount = Number(metadata.accessCount) || 0;
+      const access = accessCount / (accessCount + ACCESS_MIDPOINT);
+
+      const score =
+        total > 0
+          ? (weights.similarity * similarity +
+              weights.recency * recency +
+              weights.importance * importance +
+              weights.access * access) /
+            total
+          : similarity;
+      return {
+        ...result,
+        score,
+        scoreBreakdown: { similarity, recency, importance, access, score },
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,34 @@
+import { DistanceMetric } from "./types";
+
+/**
+ * Converts a raw distance into a similarity in [0, 1].
+ *
+ * For normalized vectors (what most embedding models return) all metrics map to the same value,
+ * `(1 + cosine similarity) / 2`, so scores are comparable across stores and metrics.
+ * Values outside the range (e.g. L2 distances of unnormalized vectors) are clamped.
+ *
+ * @param distance - The distance reported by the store. Null (e.g. a memory without vector) gives 0.
+ * @param metric - The metric the distance was computed with.
+ */
+export function distanceToSimilarity(
+  distance: number | null,
+  metric: DistanceMetric
+): number {
+  if (distance === null || distance === undefined || isNaN(distance)) return 0;
+
+  let similarity: number;
+  switch (metric) {
+    case "cosine":
+      similarity = 1 - distance / 2;
+      break;
+    case "l2":
+      // ||a - b||^2 = 2 - 2 cos(a, b) for unit vectors
+      similarity = 1 - (distance * distance) / 4;
+      break;
+    case "inner_product":
+      // The distance is the negative inner product
+      similarity = (1 - distance) / 2;
+      break;
+  }
+  return Math.min(1, Math.max(0, similarity));
+}
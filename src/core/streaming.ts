@@ -0,0 +1,65 @@
+/**
+ * Callbacks used to observe a stream while it is being consumed.
+ */
+export interface StreamTapHandlers<T> {
+  /** Called for every chunk, before it is handed to the consumer */
+  onChunk: (chunk: T) => void;
+  /** Called once the stream has been fully consumed. Not called if the stream errors or is abandoned. */
+  onComplete: () => void;
+}
+
+/**
+ * Wraps an async iterable so that every chunk is observed as it passes through.
+ * Chunks are yielded unchanged. `onComplete` only fires when the source is exhausted,
+ * so aborted requests (errors) and consumers that `break` early are never treated as complete.
+ */
+export async function* tapAsyncIterable<T>(
+  source: AsyncIterable<T>,
+  handlers: StreamTapHandlers<T>
+): AsyncGenerator<T> {
+  let completed = false;
+  try {
+    for await (const chunk of source) {
+      try {
+        handlers.onChunk(chunk);
+      } catch (e) {
+        // Observing must never break the consumer's stream
+      }
+      yield chunk;
+    }
+    completed = true;
+  } finally {
+    if (completed) handlers.onComplete();
+  }
+}
+
+/**
+ * Taps the iteration of an SDK stream object (e.g. OpenAI's or Anthropic's `Stream`).
+ *
+ * SDK streams route every way of reading them (`for await`, `tee()`, `toReadableStream()`) through
+ * their `iterator()` method, so that method is wrapped on the stream itself: the object keeps its
+ * class and private state, and `tee()` branches observe a single pass over the source.
+ * Other async iterables are wrapped in a Proxy that taps `Symbol.asyncIterator` and passes
+ * all other properties through.
+ */
+export function tapStream<S extends AsyncIterable<any>>(
+  stream: S,
+  handlers: StreamTapHandlers<S extends AsyncIterable<infer T> ? T : never>
+): S {
+  const sdkStream = stream as S & { iterator?: () => AsyncIterator<any> };
+  if (typeof sdkStream.iterator === "function") {
+    const iterator = sdkStream.iterator.bind(stream);
+    sdkStream.iterator = () =>
+      tapAsyncIterable({ [Symbol.asyncIterator]: iterator }, handlers);
+    return stream;
+  }
+
+  return new Proxy(stream, {
+    get(target, prop, receiver) {
+      if (prop === Symbol.asyncIterator) {
+        return () => tapAsyncIterable(target, handlers);
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
@@ -0,0 +1,175 @@
+import { MemoryMetadata, ToolMemoryOptions } from "./types";
+
+/**
+ * A tool invocation and its result, extracted from a request of one of the supported LLM SDKs.
+ */
+export interface CapturedToolCall {
+  id?: string;
+  name: string;
+  arguments: unknown;
+  result: unknown;
+}
+
+/**
+ * Extracts the tool results of an OpenAI chat request: the `role: "tool"` messages sent
+ * after the last assistant message, paired with the `tool_calls` of that message.
+ * Earlier results were already part of a previous request.
+ */
+export function openAIToolCalls(messages: any[]): CapturedToolCall[] {
+  const last = lastIndex(messages, (m) => m?.role === "assistant");
+  if (last < 0) return [];
+  const calls: any[] = messages[last].tool_calls || [];
+
+  return messages.slice(last + 1).flatMap((message) => {
+    if (message?.role !== "tool") return [];
+    const call = calls.find((c) => c.id === message.tool_call_id);
+    if (!call?.function?.name) return [];
+    return [
+      {
+        id: call.id,
+        name: call.function.name,
+        arguments: parseJson(call.function.arguments),
+        result: partsText(message.content),
+      },
+    ];
+  });
+}
+
+/**
+ * Extracts the tool results of an Anthropic messages request: the `tool_result` blocks sent
+ * after the last assistant message, paired with its `tool_use` blocks.
+ */
+export function anthropicToolCalls(messages: any[]): CapturedToolCall[] {
+  const last = lastIndex(messages, (m) => m?.role === "assistant");
+  if (last < 0) return [];
+  const uses = blocks(messages[last].content).filter(
+    (b) => b?.type === "tool_use"
+  );
+
+  return messages.slice(last + 1).flatMap((message) =>
+    blocks(message?.content).flatMap((block) => {
+      if (block?.type !== "tool_result") return [];
+      const use = uses.find((u) => u.id === block.tool_use_id);
+      if (!use?.name) return [];
+      return [
+        {
+          id: use.id,
+          name: use.name,
+          arguments: use.input,
+          result: partsText(block.content),
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Extracts the function responses of a Google request: the `functionResponse` parts sent
+ * after the last model turn, paired with its `functionCall` parts (by ID, or by name).
+ */
+export function googleToolCalls(contents: any[]): CapturedToolCall[] {
+  const last = lastIndex(contents, (c) => c?.role === "model");
+  if (last < 0) return [];
+  const calls = (contents[last].parts || [])
+    .map((p: any) => p?.functionCall)
+    .filter(Boolean);
+
+  return contents.slice(last + 1).flatMap((content) =>
+    (content?.parts || []).flatMap((part: any) => {
+      const response = part?.functionResponse;
+      if (!response?.name) return [];
+      const index = calls.findIndex((c: any) =>
+        response.id ? c.id === response.id : c.name === response.name
+      );
+      // Each call answers one response
+      const [call] = index >= 0 ? calls.splice(index, 1) : [];
+      return [
+        {
+          id: response.id,
+          name: response.name,
+          arguments: call?.args,
+          result: response.response,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Applies the allow and deny lists.
+ */
+export function selectToolCalls(
+  calls: CapturedToolCall[],
+  options: ToolMemoryOptions
+): CapturedToolCall[] {
+  return calls.filter(
+    (call) =>
+      (!options.allow || options.allow.includes(call.name)) &&
+      !options.deny?.includes(call.name)
+  );
+}
+
+/**
+ * Builds the memory of a tool call: a readable summary as content, the call itself as metadata.
+ * Arguments and result are serialized and truncated to `maxLength` characters each.
+ */
+export function toolMemory(
+  call: CapturedToolCall,
+  options: ToolMemoryOptions
+): { content: string; metadata: MemoryMetadata } {
+  const maxLength = options.maxLength ?? 1000;
+  const args = truncate(serialize(call.arguments ?? {}), maxLength);
+  const result = truncate(serialize(call.result ?? ""), maxLength);
+  return {
+    content: `Called tool ${call.name}(${args}). Result: ${result}`,
+    metadata: {
+      tool_name: call.name,
+      tool_arguments: args,
+      ...(call.id && { tool_call_id: call.id }),
+    },
+  };
+}
+
+function lastIndex(items: any[], predicate: (item: any) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+function blocks(content: unknown): any[] {
+  return Array.isArray(content) ? content : [];
+}
+
+/**
+ * Text of a tool result: a string, or the text of its content parts/blocks.
+ */
+function partsText(content: unknown): unknown {
+  if (!Array.isArray(content)) return content;
+  const texts = content
+    .filter((part) => part?.type === "text" && typeof part.text === "string")
+    .map((part) => part.text);
+  return texts.length > 0 ? texts.join("\n") : content;
+}
+
+function parseJson(text: unknown): unknown {
+  if (typeof text !== "string") return text;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+}
+
+function serialize(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (e) {
+    return String(value);
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
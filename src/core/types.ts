@@ -1,8 +1,8 @@
 /**
- * Represents a retrieved memory from the vector store.
- * This object contains the stored content, its vector representation, associated metadata, and the similarity score.
+ * Represents a memory as it is stored in the vector store.
+ * This object contains the stored content, its vector representation and associated metadata.
  */
-export interface MemoryResult {
+export interface MemoryRecord {
   /** Unique identifier for the memory record */
   id: string;
   /** The actual text content of the memory */
@@ -11,10 +11,51 @@ export interface MemoryResult {
   embedding: number[];
   /** Optional metadata attached to this memory (e.g., timestamps, source info) */
   metadata: MemoryMetadata | null;
-  /** The similarity distance score. Lower values usually mean strictly closer (depending on metric used). */
+}
+
+/**
+ * Represents a retrieved memory from a similarity search.
+ * Extends the stored record with the similarity score.
+ */
+export interface MemoryResult extends MemoryRecord {
+  /** The raw distance under the store's metric (see `DistanceMetric`). Lower values mean closer. */
   distance: number;
+  /**
+   * Similarity normalized to [0, 1] (1 = identical direction), comparable across stores and metrics.
+   * Optional for custom stores.
+   */
+  similarity?: number;
+  /** Relevance score from hybrid fusion or reranking. Higher values mean more relevant. */
+  score?: number;
+  /** Components of the reranking `score` (reranked searches only) */
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+/**
+ * Components of a reranked result's score, each in [0, 1].
+ * `score` is their weighted average under the `RerankOptions` weights.
+ */
+export interface ScoreBreakdown {
+  /** Normalized vector similarity */
+  similarity: number;
+  /** Exponential decay of the memory's age: 1 when new, 0.5 after one half-life */
+  recency: number;
+  /** Stored `importance` metadata (0.5 when not set) */
+  importance: number;
+  /** Saturating function of the stored `accessCount` */
+  access: number;
+  /** Final score the results are sorted by */
+  score: number;
 }
 
+/**
+ * Distance metric used by a vector store.
+ * - `cosine`: cosine distance (1 - cosine similarity).
+ * - `l2`: Euclidean distance.
+ * - `inner_product`: negative inner product (so lower is still closer). Best suited to normalized vectors.
+ */
+export type DistanceMetric = "cosine" | "l2" | "inner_product";
+
 /**
  * Flexible metadata structure for memories.
  * Allows storing arbitrary key-value pairs along with standard fields like role and timestamps.
@@ -30,10 +71,65 @@ export interface MemoryMetadata {
   sessionId?: string;
   /** ISO timestamp string of creation */
   created_at?: string;
+  /** ISO timestamp after which the memory is excluded from reads and removed by `maintenance.prune()` */
+  expiresAt?: string | null;
   /** Allow dynamic properties for flexibility */
   [key: string]: any;
 }
 
+/**
+ * A literal value that metadata fields can be compared against.
+ * Dates are compared as ISO timestamps.
+ */
+export type FilterValue = string | number | boolean | null | Date;
+
+/**
+ * Operators applicable to a single metadata field.
+ * Several operators on the same field are combined with AND.
+ */
+export interface FieldCondition {
+  /** Equal to the value. `null` also matches missing keys. */
+  $eq?: FilterValue;
+  /** Not equal to the value. Missing keys match. */
+  $ne?: FilterValue;
+  /** Equal to any of the values */
+  $in?: FilterValue[];
+  /** Greater than (numbers, or dates on `created_at`) */
+  $gt?: number | string | Date;
+  /** Greater than or equal to */
+  $gte?: number | string | Date;
+  /** Less than (numbers, or dates on `created_at`) */
+  $lt?: number | string | Date;
+  /** Less than or equal to */
+  $lte?: number | string | Date;
+  /** Whether the key is present (`true`) or absent (`false`) */
+  $exists?: boolean;
+}
+
+/**
+ * Typed filter expression over memory metadata.
+ * Keys are metadata fields (dot-separated for nested objects, e.g. `"source.app"`) or the
+ * standard fields `role`, `entityId`, `processId`, `sessionId` and `created_at`.
+ * A bare value is shorthand for `$eq`. Top-level keys are combined with AND.
+ *
+ * @example
+ * { topic: "billing", priority: { $gte: 3 }, $or: [{ pinned: true }, { created_at: { $gt: "2024-01-01" } }] }
+ */
+export interface MetadataFilter {
+  /** All sub-expressions must match */
+  $and?: MetadataFilter[];
+  /** At least one sub-expression must match */
+  $or?: MetadataFilter[];
+  /** The sub-expression must not match */
+  $not?: MetadataFilter;
+  [field: string]:
+    | FilterValue
+    | FieldCondition
+    | MetadataFilter
+    | MetadataFilter[]
+    | undefined;
+}
+
 /**
  * Filter criteria for memory searches.
  * exact match filters to narrow down the search scope.
@@ -45,6 +141,277 @@ export interface MemoryFilter {
   processId?: string;
   /** If provided, only returns memories matching this sessionId */
   sessionId?: string;
+  /** If provided, only returns memories whose metadata matches this expression */
+  metadata?: MetadataFilter;
+  /** Also returns memories past their `expiresAt` that haven't been pruned yet. Defaults to false. */
+  includeExpired?: boolean;
+}
+
+/**
+ * Attribution of a memory operation: who (entity), in which process/agent, and in which session.
+ */
+export interface MemoryScope {
+  /** ID of the entity (user/agent) */
+  entityId?: string;
+  /** ID of the process, agent or conversation */
+  processId?: string;
+  /** ID of the current session */
+  sessionId?: string;
+}
+
+/**
+ * A memory to add through `Memori.addMemories`.
+ */
+export interface NewMemory {
+  /** The text to remember */
+  content: string;
+  /** The author of the memory. Defaults to "user". */
+  role?: string;
+  /** Overrides for the current attribution */
+  scope?: MemoryScope;
+  /** Additional metadata, e.g. `created_at` to keep the original timestamp of imported messages */
+  metadata?: MemoryMetadata;
+}
+
+/**
+ * How `Memori.addMemory` handles a new memory that nearly duplicates stored ones
+ * (`writePolicy` option). Duplicates are searched within the same entity, process and role.
+ * - `skip`: the new memory is dropped.
+ * - `merge`: the closest duplicate is kept, with its `created_at` refreshed and its `hitCount` incremented.
+ * - `consolidate`: the configured `llm` rewrites the new memory and its duplicates into one fact,
+ *   stored as a new memory whose `supersedes` metadata lists the replaced IDs.
+ *   The replaced memories expire immediately (see `maintenance.prune()`) and point to it with `supersededBy`.
+ */
+export interface WritePolicy {
+  mode: "skip" | "merge" | "consolidate";
+  /** Minimum `similarity` (0 to 1) for a stored memory to count as a duplicate. Defaults to 0.95. */
+  threshold?: number;
+  /** Number of nearest memories checked. Defaults to 5. */
+  candidates?: number;
+  /** Instruction given to the `llm` in `consolidate` mode, followed by the statements */
+  consolidationPrompt?: string;
+}
+
+/**
+ * Options for bulk insertion with `Memori.addMemories`.
+ */
+export interface AddMemoriesOptions {
+  /** Number of memories embedded and inserted together. Defaults to 100. */
+  batchSize?: number;
+  /** Number of batches processed in parallel. Defaults to 2. */
+  concurrency?: number;
+  /** Called after each batch with the number of memories stored so far */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Controls how searches combine the current session with the entity's other sessions.
+ * Only applies when a session is attributed.
+ */
+export interface SessionPolicy {
+  /**
+   * - `session`: only memories from the current session.
+   * - `entity`: memories from all sessions of the entity.
+   * - `blend`: a mix of both, using the quotas below (default).
+   */
+  mode?: "session" | "entity" | "blend";
+  /** Maximum number of results from the current session in blend mode. Defaults to half the limit (rounded up). */
+  currentSessionQuota?: number;
+  /** Maximum number of results from other sessions in blend mode. Defaults to the rest of the limit. */
+  otherSessionsQuota?: number;
+}
+
+/**
+ * Capture of tool calls by the patched LLM clients (`toolMemory` option).
+ * Each call is stored together with its result as a memory with role `tool`,
+ * the tool name and arguments in its metadata (`tool_name`, `tool_arguments`, `tool_call_id`).
+ */
+export interface ToolMemoryOptions {
+  /** Only capture these tools (by name). Defaults to all tools. */
+  allow?: string[];
+  /** Never capture these tools */
+  deny?: string[];
+  /** Maximum length (in characters) of the stored arguments, and of the stored result. Defaults to 1000. */
+  maxLength?: number;
+}
+
+/**
+ * A non-text part of a chat message (image, audio or file), normalized across LLM providers.
+ */
+export interface MediaPart {
+  kind: "image" | "audio" | "file";
+  /** MIME type, if known (e.g. `image/png`) */
+  mimeType?: string;
+  /** URL (or provider file URI/ID) of referenced media */
+  url?: string;
+  /** Base64 data of inlined media */
+  data?: string;
+  /** File name, if known */
+  name?: string;
+}
+
+/**
+ * Turns the media parts of chat messages into text memories (`multimodal` option).
+ * See `CallbackMultimodalExtractor` for captioning and OCR callbacks.
+ */
+export interface MultimodalExtractor {
+  /**
+   * Describes a media part in text, e.g. with a vision model.
+   * @returns The text to remember, or null to skip the part.
+   */
+  extract(part: MediaPart): Promise<string | null>;
+}
+
+/**
+ * Counts the tokens of a text, e.g. with the tokenizer of the chat model.
+ */
+export type Tokenizer = (text: string) => number;
+
+/**
+ * How retrieved memories are assembled into the context injected into LLM calls (`context` option).
+ */
+export interface ContextOptions {
+  /** Number of memories retrieved per query. Defaults to 5. */
+  topK?: number;
+  /** Maximum size of the injected context (header included), in tokens. Unlimited by default. */
+  maxTokens?: number;
+  /** Counts tokens for `maxTokens`. Defaults to an estimate of 4 characters per token. */
+  tokenizer?: Tokenizer;
+  /**
+   * Word overlap (Jaccard, 0 to 1) above which a memory is dropped as a near-duplicate of a more relevant one.
+   * Defaults to 0.9. `false` keeps duplicates.
+   */
+  dedupe?: number | false;
+  /** Order of the memories in the context: by `relevance` (default) or `chronological` (oldest first). */
+  order?: "relevance" | "chronological";
+  /** Text placed before the memories. Defaults to "Use the following memory context to answer the user if relevant:". */
+  header?: string;
+  /**
+   * Line of each memory. Placeholders: `{content}`, `{id}`, `{similarity}` and any metadata field
+   * (e.g. `{role}`, `{created_at}`). Defaults to "- {content}".
+   */
+  template?: string | ((memory: MemoryResult) => string);
+}
+
+/**
+ * Default lifetimes of new memories (`ttl` option), in milliseconds.
+ * The most specific policy applies: an explicit `expiresAt` in the metadata, then the entity, then the role, then the default.
+ */
+export interface TTLPolicy {
+  /** Lifetime of memories no other policy applies to. Memories don't expire by default. */
+  default?: number;
+  /** Lifetime per role, e.g. `{ tool: 7 * 24 * 3600 * 1000 }` */
+  byRole?: Record<string, number>;
+  /** Lifetime per entity */
+  byEntity?: Record<string, number>;
+  /** Runs `maintenance.prune()` at this interval (in milliseconds). Disabled by default. */
+  pruneInterval?: number;
+}
+
+/**
+ * Result of `Memori.maintenance.prune`.
+ */
+export interface PruneReport {
+  /** Number of expired memories deleted */
+  deleted: number;
+  /** Time the prune took, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Reranking of search results (`rerank` option), combining similarity with
+ * recency, importance and access frequency. Weights are relative to each other.
+ */
+export interface RerankOptions {
+  /** Weight of the vector similarity. Defaults to 0.6. */
+  similarityWeight?: number;
+  /** Weight of recency. Defaults to 0.2. */
+  recencyWeight?: number;
+  /** Weight of the stored `importance` (0 to 1). Defaults to 0.1. */
+  importanceWeight?: number;
+  /** Weight of the access frequency (the stored `accessCount`, see `trackAccess`). Defaults to 0.1. */
+  accessWeight?: number;
+  /** Age (in milliseconds) at which recency counts half. Defaults to 30 days. */
+  halfLife?: number;
+  /** Number of candidates fetched from the store and reranked. Defaults to 4x the limit. */
+  candidates?: number;
+  /**
+   * Counts returned memories (`accessCount`, `lastAccessedAt` metadata).
+   * Costs a read and a write per returned memory, so it is off by default.
+   */
+  trackAccess?: boolean;
+}
+
+/**
+ * Retrieval strategy used by `Memori.search`.
+ * - `vector`: KNN search over embeddings (default).
+ * - `lexical`: Full-text (BM25) search over the content.
+ * - `hybrid`: Both, fused with Reciprocal Rank Fusion.
+ */
+export type SearchMode = "vector" | "lexical" | "hybrid";
+
+/**
+ * Options controlling how `Memori.search` retrieves memories.
+ */
+export interface SearchOptions {
+  /** Retrieval strategy. Defaults to "vector". */
+  mode?: SearchMode;
+  /** Weight of the vector ranking in hybrid fusion. Defaults to 1. */
+  vectorWeight?: number;
+  /** Weight of the lexical ranking in hybrid fusion. Defaults to 1. */
+  lexicalWeight?: number;
+  /** RRF smoothing constant (k). Defaults to 60. */
+  rrfK?: number;
+  /** Number of candidates fetched from each ranking before fusion. Defaults to 4x the limit. */
+  candidates?: number;
+  /** Metadata filter expression, applied on top of the attribution scope */
+  filter?: MetadataFilter;
+  /** Overrides for the current attribution (entity, process, session) */
+  scope?: MemoryScope;
+  /** Overrides for the configured session retrieval policy */
+  session?: SessionPolicy;
+  /**
+   * Drops results whose normalized `similarity` is below this value (0 to 1).
+   * Results from stores that don't report a similarity are kept.
+   */
+  minSimilarity?: number;
+  /** Overrides for the configured reranking, or false to rank by relevance only */
+  rerank?: RerankOptions | false;
+}
+
+/**
+ * A memory to be inserted into a vector store.
+ */
+export interface MemoryInput {
+  /** The raw text content to be stored */
+  content: string;
+  /** The vector embedding of the content */
+  embedding: number[];
+  /** Optional metadata identifying the source/context of this memory. `created_at` is used as the stored timestamp if set. */
+  metadata?: MemoryMetadata;
+}
+
+/**
+ * Partial update applied to an existing memory.
+ * Only the provided fields are changed; metadata is shallow-merged into the existing metadata.
+ */
+export interface MemoryUpdate {
+  /** New text content for the memory */
+  content?: string;
+  /** New vector embedding. Should be provided whenever the content changes. */
+  embedding?: number[];
+  /** Metadata keys to merge into the existing metadata */
+  metadata?: MemoryMetadata;
+}
+
+/**
+ * A single page of memories returned by `VectorStore.list`.
+ */
+export interface MemoryPage {
+  /** Memories in this page, ordered by insertion (oldest first) */
+  items: MemoryRecord[];
+  /** Cursor to pass to the next `list` call, or null if there are no more results */
+  nextCursor: string | null;
 }
 
 /**
@@ -71,6 +438,14 @@ export interface VectorStore {
     metadata?: MemoryMetadata
   ): Promise<string>;
 
+  /**
+   * Inserts many records at once (single transaction / multi-row insert).
+   * Optional: when missing, callers fall back to repeated `insert` calls.
+   * @param items - The memories to insert.
+   * @returns A promise resolving to the IDs of the inserted records, in input order.
+   */
+  insertMany?(items: MemoryInput[]): Promise<string[]>;
+
   /**
    * Searches for vectors similar to the query embedding.
    * @param embedding - The query vector to compare against.
@@ -84,11 +459,277 @@ export interface VectorStore {
     filter?: MemoryFilter
   ): Promise<MemoryResult[]>;
 
+  /**
+   * Full-text search over memory content, ranked by lexical relevance (e.g. BM25).
+   * Optional: stores that don't implement it only support vector search.
+   * @param query - The raw text query.
+   * @param embedding - The query vector, used to report the vector `distance` of each match.
+   * @param limit - The maximum number of results to return.
+   * @param filter - Optional criteria to filter results by (e.g., entityId).
+   * @returns A promise resolving to results sorted by lexical relevance (best first).
+   */
+  lexicalSearch?(
+    query: string,
+    embedding: number[],
+    limit: number,
+    filter?: MemoryFilter
+  ): Promise<MemoryResult[]>;
+
+  /**
+   * Retrieves a single memory by its ID.
+   * @param id - The ID of the memory record.
+   * @returns A promise resolving to the memory, or null if it does not exist.
+   */
+  get(id: string): Promise<MemoryRecord | null>;
+
+  /**
+   * Lists memories page by page, oldest first.
+   * @param filter - Optional criteria to filter results by (e.g., entityId).
+   * @param cursor - Cursor returned by a previous call (`nextCursor`). Omit to start from the beginning.
+   * @param limit - The maximum number of memories to return in this page.
+   * @returns A promise resolving to a page of memories and the cursor for the next page.
+   */
+  list(
+    filter?: MemoryFilter,
+    cursor?: string | null,
+    limit?: number
+  ): Promise<MemoryPage>;
+
+  /**
+   * Updates the content, embedding and/or metadata of an existing memory.
+   * @param id - The ID of the memory record.
+   * @param update - The fields to change.
+   * @returns A promise resolving to the updated memory, or null if it does not exist.
+   */
+  update(id: string, update: MemoryUpdate): Promise<MemoryRecord | null>;
+
+  /**
+   * Counts the memories matching the given filter.
+   * @param filter - Optional criteria to filter by (e.g., entityId).
+   * @returns A promise resolving to the number of matching memories.
+   */
+  count(filter?: MemoryFilter): Promise<number>;
+
+  /**
+   * Deletes a memory (and its vector) by ID.
+   * @param id - The ID of the memory record.
+   */
+  delete(id: string): Promise<void>;
+
   /**
    * Closes the database connection and cleans up resources.
    * Should be called when the application is shutting down.
    */
   close(): Promise<void>;
+
+  /**
+   * Applies pending schema migrations (optional).
+   * Built-in stores also run them on `init`.
+   * @param options - Set `dryRun` to only report the pending migrations.
+   * @returns What was (or would be) applied.
+   */
+  migrate?(options?: MigrateOptions): Promise<MigrationReport>;
+
+  /**
+   * Hard-deletes the memories (and vectors) whose `expiresAt` has passed (optional).
+   * Stores that implement it must also exclude expired memories from filtered reads.
+   * @returns The number of deleted memories.
+   */
+  prune?(): Promise<number>;
+
+  /**
+   * Reads the embedding model recorded for the stored vectors (optional).
+   * @returns The recorded model, or null if none was recorded yet.
+   */
+  getEmbeddingInfo?(): Promise<EmbeddingInfo | null>;
+
+  /**
+   * Records the embedding model of the stored vectors (optional).
+   * The store adds the dimension of its vector table.
+   */
+  setEmbeddingInfo?(info: Omit<EmbeddingInfo, "dimension">): Promise<void>;
+
+  // Re-embedding (optional, used by `Memori.reembed`).
+  // New vectors are written to a separate vector table, which replaces the current one once complete.
+
+  /**
+   * Creates the vector table for the target model, or keeps the existing one
+   * (with the vectors already written) if it was prepared for the same target.
+   */
+  prepareReembed?(target: EmbeddingInfo): Promise<void>;
+
+  /**
+   * Returns memories that have no vector in the new table yet, oldest first.
+   * @param limit - The maximum number of memories to return.
+   */
+  pendingReembed?(limit: number): Promise<ReembedBatch>;
+
+  /**
+   * Writes vectors to the new table.
+   */
+  writeReembed?(items: { id: string; embedding: number[] }[]): Promise<void>;
+
+  /**
+   * Atomically replaces the vector table with the new one and records the target model.
+   * Fails if some memories have no new vector yet.
+   */
+  completeReembed?(): Promise<void>;
+}
+
+/**
+ * The embedding model that produced the vectors of a store.
+ */
+export interface EmbeddingInfo {
+  /** Provider name (e.g. "OpenAIEmbedding") */
+  provider: string;
+  /** Model identifier, if the provider exposes one */
+  model: string | null;
+  /** Vector dimension */
+  dimension: number;
+}
+
+/**
+ * A batch of memories waiting to be re-embedded.
+ */
+export interface ReembedBatch {
+  /** Memories to re-embed (without their current vectors) */
+  items: MemoryRecord[];
+  /** Number of memories still waiting, including `items` */
+  remaining: number;
+}
+
+/**
+ * Options for `Memori.reembed`.
+ */
+export interface ReembedOptions {
+  /** The embedding provider to switch to */
+  provider: EmbeddingProvider;
+  /** Dimension of the new vectors. Detected with a probe embedding if omitted. */
+  dimension?: number;
+  /** Number of memories embedded per call. Defaults to 100. */
+  batchSize?: number;
+  /** Called after each batch with the number of memories done (including earlier, interrupted runs) */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Outcome of `Memori.reembed`.
+ */
+export interface ReembedReport {
+  /** Number of memories embedded by this run (a resumed job skips the ones already done) */
+  reembedded: number;
+  /** The model now recorded for the store */
+  info: EmbeddingInfo;
+}
+
+/**
+ * A memory as written by `Memori.export`, one JSON object per line.
+ */
+export interface MemoryExportRecord {
+  /** ID of the memory in the exporting store */
+  id: string;
+  content: string;
+  /** Metadata, including the attribution (entityId, processId, sessionId) and role */
+  metadata: MemoryMetadata;
+  created_at: string | null;
+  /** The vector, if exported with `includeEmbeddings` */
+  embedding?: number[];
+  /** The model that produced `embedding` */
+  embedding_model?: EmbeddingInfo;
+}
+
+/**
+ * Options for `Memori.export`.
+ */
+export interface ExportOptions {
+  /** Memories to export. Defaults to the current attribution scope. */
+  filter?: MemoryFilter;
+  /** Include vectors, so an import with the same model doesn't need to re-embed. Defaults to false. */
+  includeEmbeddings?: boolean;
+  /** Number of memories read from the store at once. Defaults to 500. */
+  batchSize?: number;
+  /** Called after each batch with the number of memories written */
+  onProgress?: (exported: number, total: number) => void;
+}
+
+/**
+ * Outcome of `Memori.export`.
+ */
+export interface ExportReport {
+  /** Number of memories written */
+  exported: number;
+}
+
+/**
+ * What `Memori.import` does with a record whose ID already exists in the store.
+ * - `skip`: keep the existing memory (default).
+ * - `overwrite`: replace the content, metadata and vector of the existing memory.
+ * - `duplicate`: insert the record as a new memory.
+ */
+export type ImportConflictPolicy = "skip" | "overwrite" | "duplicate";
+
+/**
+ * Options for `Memori.import`.
+ */
+export interface ImportOptions {
+  /**
+   * Embed every record with the configured provider, ignoring exported vectors.
+   * Otherwise exported vectors are reused when they come from the configured model,
+   * and only the other records are embedded. Defaults to false.
+   */
+  reembed?: boolean;
+  /** Handling of records whose ID already exists. Defaults to "skip". */
+  onConflict?: ImportConflictPolicy;
+  /** Number of records embedded and written together. Defaults to 100. */
+  batchSize?: number;
+  /** Called after each batch with the number of records read so far */
+  onProgress?: (processed: number) => void;
+}
+
+/**
+ * Outcome of `Memori.import`.
+ */
+export interface ImportReport {
+  /** Records inserted as new memories */
+  imported: number;
+  /** Existing memories replaced by a record */
+  overwritten: number;
+  /** Records skipped because their ID already exists */
+  skipped: number;
+  /** Records embedded with the configured provider instead of reusing their vector */
+  reembedded: number;
+}
+
+/**
+ * Options for `VectorStore.migrate`.
+ */
+export interface MigrateOptions {
+  /** Only report the pending migrations, without changing the database */
+  dryRun?: boolean;
+}
+
+/**
+ * A versioned schema change, as reported by migrations.
+ */
+export interface MigrationStep {
+  /** Schema version reached once this migration is applied */
+  version: number;
+  /** Human-readable summary of the change */
+  description: string;
+}
+
+/**
+ * Outcome of a migration run.
+ */
+export interface MigrationReport {
+  /** Schema version before the run */
+  fromVersion: number;
+  /** Schema version after the run (or after applying `pending`, in a dry run) */
+  toVersion: number;
+  /** Migrations applied, or pending in a dry run, in order */
+  migrations: MigrationStep[];
+  /** Whether this was a dry run */
+  dryRun: boolean;
 }
 
 /**
@@ -102,4 +743,74 @@ export interface EmbeddingProvider {
    * @returns A promise resolving to the vector embedding (array of numbers).
    */
   embed(text: string): Promise<number[]>;
+
+  /**
+   * Generates vector embeddings for several texts in one call.
+   * Optional: when missing, `embed` is called for each text.
+   * @param texts - The texts to embed.
+   * @returns A promise resolving to one embedding per text, in input order.
+   */
+  embedBatch?(texts: string[]): Promise<number[][]>;
+
+  /**
+   * Identifier of the embedding model (e.g. "text-embedding-3-small").
+   * Optional: used to tell apart vectors of different models, e.g. in the embedding cache.
+   */
+  readonly model?: string;
+
+  /**
+   * Identifier of the provider, recorded with the stored vectors (e.g. "acme-embeddings").
+   * Optional: defaults to the class name, or "custom" for plain objects. Set it so that
+   * switching between custom providers is detected.
+   */
+  readonly name?: string;
+}
+
+/**
+ * Storage backend for cached embeddings, keyed by an opaque string.
+ */
+export interface EmbeddingCache {
+  /**
+   * Looks up a cached embedding.
+   * @param key - The cache key.
+   * @returns The embedding, or null if it is missing or expired.
+   */
+  get(key: string): Promise<number[] | null>;
+
+  /**
+   * Stores an embedding, evicting old entries if the cache is full.
+   * @param key - The cache key.
+   * @param embedding - The vector to cache.
+   */
+  set(key: string, embedding: number[]): Promise<void>;
+
+  /**
+   * Removes all cached embeddings.
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Releases the resources held by the cache (optional).
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Size and lifetime limits of an embedding cache.
+ */
+export interface EmbeddingCacheOptions {
+  /** Maximum number of cached embeddings. The least recently used are evicted first. Unlimited by default. */
+  maxEntries?: number;
+  /** Time to live of an entry in milliseconds. Entries never expire by default. */
+  ttlMs?: number;
+}
+
+/**
+ * Hit/miss counters of an embedding cache.
+ */
+export interface EmbeddingCacheStats {
+  /** Number of texts served from the cache */
+  hits: number;
+  /** Number of texts sent to the embedding provider */
+  misses: number;
 }
@@ -0,0 +1,274 @@
+import sqlite3 from "sqlite3";
+import { createHash } from "crypto";
+import {
+  EmbeddingCache,
+  EmbeddingCacheOptions,
+  EmbeddingCacheStats,
+  EmbeddingProvider,
+} from "../core/types";
+import { EmbeddingError } from "../core/errors";
+
+export interface CachedEmbeddingOptions {
+  /** Where vectors are cached. Defaults to an in-memory LRU cache without limits. */
+  cache?: EmbeddingCache;
+  /**
+   * Identifies the provider and model in cache keys.
+   * Defaults to the provider's `name` (or class name) and `model`.
+   */
+  namespace?: string;
+  /** Dimension of the vectors, part of the cache key. */
+  dimension?: number;
+}
+
+/**
+ * Wraps an embedding provider so that each distinct text is only embedded once.
+ * Vectors are cached under a hash of the provider/model, the dimension and the text,
+ * so a shared cache never serves vectors of another model.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  /** Hit/miss counters, updated in place. */
+  public readonly stats: EmbeddingCacheStats = { hits: 0, misses: 0 };
+  public readonly cache: EmbeddingCache;
+  /** The wrapped provider */
+  public readonly provider: EmbeddingProvider;
+  private namespace: string;
+  private dimension: number | null;
+
+  /**
+   * @param provider - The provider computing embeddings on cache misses.
+   * @param options - Cache backend and key settings.
+   */
+  constructor(
+    provider: EmbeddingProvider,
+    options: CachedEmbeddingOptions = {}
+  ) {
+    this.provider = provider;
+    this.cache = options.cache || new MemoryEmbeddingCache();
+    this.namespace =
+      options.namespace ||
+      `${provider.name || provider.constructor.name}:${provider.model || ""}`;
+    this.dimension = options.dimension ?? null;
+  }
+
+  get model(): string | undefined {
+    return this.provider.model;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const key = this.cacheKey(text);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      this.stats.hits++;
+      return cached;
+    }
+
+    this.stats.misses++;
+    const embedding = await this.provider.embed(text);
+    await this.cache.set(key, embedding);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const keys = texts.map((text) => this.cacheKey(text));
+    const results: (number[] | null)[] = await Promise.all(
+      keys.map((key) => this.cache.get(key))
+    );
+
+    // Embed each missing text once, even if it appears several times in the batch
+    const missing = new Map<string, string>();
+    keys.forEach((key, i) => {
+      if (results[i]) {
+        this.stats.hits++;
+      } else if (!missing.has(key)) {
+        missing.set(key, texts[i]);
+      }
+    });
+    this.stats.misses += missing.size;
+
+    if (missing.size > 0) {
+      const missingTexts = [...missing.values()];
+      const embeddings = this.provider.embedBatch
+        ? await this.provider.embedBatch(missingTexts)
+        : await Promise.all(missingTexts.map((t) => this.provider.embed(t)));
+
+      const computed = new Map<string, number[]>();
+      [...missing.keys()].forEach((key, i) => computed.set(key, embeddings[i]));
+      for (const [key, embedding] of computed) {
+        await this.cache.set(key, embedding);
+      }
+      keys.forEach((key, i) => {
+        if (!results[i]) results[i] = computed.get(key)!;
+      });
+    }
+
+    return results as number[][];
+  }
+
+  private cacheKey(text: string): string {
+    return createHash("sha256")
+      .update(`${this.namespace}\0${this.dimension ?? ""}\0${text}`)
+      .digest("hex");
+  }
+}
+
+/**
+ * In-memory LRU embedding cache. Contents are lost when the process exits.
+ */
+export class MemoryEmbeddingCache implements EmbeddingCache {
+  // Map iteration follows insertion order, so the first entry is the least recently used
+  private entries = new Map<
+    string,
+    { embedding: number[]; storedAt: number }
+  >();
+  private options: EmbeddingCacheOptions;
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.options = options;
+  }
+
+  async get(key: string): Promise<number[] | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (isExpired(entry.storedAt, this.options.ttlMs)) return null;
+    this.entries.set(key, entry);
+    return entry.embedding;
+  }
+
+  async set(key: string, embedding: number[]): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { embedding, storedAt: Date.now() });
+
+    const { maxEntries } = this.options;
+    if (maxEntries === undefined) return;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Persistent embedding cache stored in the `embedding_cache` table of a SQLite database.
+ * It can share the database file of `SqliteVecStore`.
+ */
+export class SqliteEmbeddingCache implements EmbeddingCache {
+  public db: sqlite3.Database;
+  private options: EmbeddingCacheOptions;
+  private ready?: Promise<void>;
+  private lastAccess = 0;
+
+  /**
+   * @param path - File path for the database. Defaults to "memori.db". Use ":memory:" for ephemeral storage.
+   * @param options - Size and lifetime limits.
+   */
+  constructor(path = "memori.db", options: EmbeddingCacheOptions = {}) {
+    this.db = new sqlite3.Database(path);
+    this.options = options;
+  }
+
+  async get(key: string): Promise<number[] | null> {
+    await this.init();
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db.get(
+        "SELECT embedding, created_at FROM embedding_cache WHERE key = ?",
+        [key],
+        (err, row) => {
+          if (err)
+            reject(new EmbeddingError("Failed to read embedding cache", err));
+          else resolve(row);
+        }
+      );
+    });
+    if (!row) return null;
+
+    if (isExpired(row.created_at, this.options.ttlMs)) {
+      await this.run("DELETE FROM embedding_cache WHERE key = ?", [key]);
+      return null;
+    }
+    await this.run("UPDATE embedding_cache SET accessed_at = ? WHERE key = ?", [
+      this.accessTime(),
+      key,
+    ]);
+    return Array.from(new Float32Array(new Uint8Array(row.embedding).buffer));
+  }
+
+  async set(key: string, embedding: number[]): Promise<void> {
+    await this.init();
+    const now = this.accessTime();
+    await this.run(
+      "INSERT OR REPLACE INTO embedding_cache (key, embedding, created_at, accessed_at) VALUES (?, ?, ?, ?)",
+      [key, Buffer.from(new Float32Array(embedding).buffer), now, now]
+    );
+
+    const { maxEntries } = this.options;
+    if (maxEntries === undefined) return;
+    // Keep the most recently used entries
+    await this.run(
+      "DELETE FROM embedding_cache WHERE key IN (SELECT key FROM embedding_cache ORDER BY accessed_at DESC LIMIT -1 OFFSET ?)",
+      [maxEntries]
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.init();
+    await this.run("DELETE FROM embedding_cache", []);
+  }
+
+  async close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.close((err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.run(
+          `CREATE TABLE IF NOT EXISTS embedding_cache (
+            key TEXT PRIMARY KEY,
+            embedding BLOB NOT NULL,
+            created_at INTEGER NOT NULL,
+            accessed_at INTEGER NOT NULL
+          )`,
+          []
+        );
+        await this.run(
+          "CREATE INDEX IF NOT EXISTS embedding_cache_accessed_at ON embedding_cache (accessed_at)",
+          []
+        );
+      })();
+    }
+    return this.ready;
+  }
+
+  private run(sql: string, params: any[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, (err) => {
+        if (err)
+          reject(new EmbeddingError("Failed to write embedding cache", err));
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * Millisecond timestamp, strictly increasing so that LRU order is exact within a process.
+   */
+  private accessTime(): number {
+    this.lastAccess = Math.max(Date.now(), this.lastAccess + 1);
+    return this.lastAccess;
+  }
+}
+
+function isExpired(storedAt: number, ttlMs?: number): boolean {
+  return ttlMs !== undefined && Date.now() - storedAt > ttlMs;
+}
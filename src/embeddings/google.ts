@@ -8,7 +8,7 @@ export interface GoogleGenAIEmbeddingOptions {
 
 export class GoogleGenAIEmbedding implements EmbeddingProvider {
   private client: GoogleGenAI;
-  private model: string;
+  readonly model: string;
 
   constructor(options: GoogleGenAIEmbeddingOptions) {
     this.client = new GoogleGenAI({ apiKey: options.apiKey });
@@ -36,4 +36,26 @@ export class GoogleGenAIEmbedding implements EmbeddingProvider {
 
     return response.embeddings[0].values;
   }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.models.embedContent({
+      model: this.model,
+      contents: texts.map((text) => ({
+        role: "user",
+        parts: [{ text }],
+      })),
+    });
+
+    if (
+      !response.embeddings ||
+      response.embeddings.length !== texts.length ||
+      response.embeddings.some((e) => !e.values)
+    ) {
+      throw new Error("Failed to get batch embeddings from Google GenAI");
+    }
+
+    return response.embeddings.map((e) => e.values!);
+  }
 }
@@ -9,7 +9,7 @@ export interface OpenAIEmbeddingOptions {
 
 export class OpenAIEmbedding implements EmbeddingProvider {
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
 
   constructor(options: OpenAIEmbeddingOptions) {
     this.client = new OpenAI({
@@ -33,4 +33,23 @@ export class OpenAIEmbedding implements EmbeddingProvider {
 
     return response.data[0].embedding;
   }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: "float",
+    });
+
+    if (!response.data || response.data.length !== texts.length) {
+      throw new Error("Failed to get batch embeddings from OpenAI");
+    }
+
+    // The API returns one item per input, tagged with its index
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
 }
@@ -4,19 +4,19 @@ import { ConsoleLogger } from "../core/logger";
 
 export class TransformerEmbedding implements EmbeddingProvider {
   private pipe: any;
-  private modelName: string;
+  readonly model: string;
   private logger = new ConsoleLogger();
 
   constructor(modelName: string = "Xenova/all-MiniLM-L6-v2") {
-    this.modelName = modelName;
+    this.model = modelName;
   }
 
   private async init() {
     if (this.pipe) return;
 
-    this.logger.info(`Loading local embedding model: ${this.modelName}...`);
+    this.logger.info(`Loading local embedding model: ${this.model}...`);
     // 'feature-extraction' is the task for embeddings
-    this.pipe = await pipeline("feature-extraction", this.modelName);
+    this.pipe = await pipeline("feature-extraction", this.model);
     this.logger.info("Local model loaded successfully.");
   }
 
@@ -35,4 +35,21 @@ export class TransformerEmbedding implements EmbeddingProvider {
       throw error;
     }
   }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    if (!this.pipe) await this.init();
+
+    try {
+      // Batched inputs produce a [texts.length, dimension] tensor
+      const result = await this.pipe(texts, {
+        pooling: "mean",
+        normalize: true,
+      });
+      return result.tolist();
+    } catch (error) {
+      this.logger.error("Failed to generate local embeddings:", error);
+      throw error;
+    }
+  }
 }
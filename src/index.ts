@@ -16,6 +16,9 @@ export * from "./core/db";
 // Elysia/Web Plugin
 export * from "./plugin";
 
+// MCP Server
+export * from "./mcp";
+
 // Vector Store Implementations
 export * from "./stores/postgres";
 export * from "./stores/sqlite";
@@ -23,6 +26,22 @@ export * from "./stores/sqlite";
 // Types and Interfaces
 export * from "./core/types";
 
+// Retrieval Helpers
+export * from "./core/hybrid";
+export * from "./core/filter";
+export * from "./core/similarity";
+export * from "./core/context";
+export * from "./core/rerank";
+
+// Multimodal Memory
+export * from "./core/multimodal";
+
+// Import / Export
+export * from "./core/archive";
+
+// Schema Migrations (for custom stores)
+export * from "./core/migrations";
+
 // Error Handling
 export * from "./core/errors";
 
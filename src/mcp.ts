@@ -0,0 +1,428 @@
+import { type } from "arktype";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { Memori } from "./core/memory";
+import { MemoryRecord, MemoryScope, MetadataFilter } from "./core/types";
+import { readLines, ImportSource } from "./core/archive";
+
+/**
+ * Protocol revisions the server can speak, newest first.
+ */
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+/** Name of this package in its package.json */
+const PACKAGE_NAME = "memori-js";
+
+/** Template of the per-entity memory listing resources */
+const ENTITY_URI = /^memori:\/\/entities\/([^/]+)\/memories$/;
+
+export interface McpServerOptions {
+  /** Default attribution of tool calls, overridden by the `entityId`/`processId`/`sessionId` arguments */
+  scope?: MemoryScope;
+  /** Server name reported to the host. Defaults to "memori". */
+  name?: string;
+  /** Server version reported to the host. Defaults to the memori-js version. */
+  version?: string;
+}
+
+/**
+ * A JSON-RPC 2.0 message of the Model Context Protocol.
+ */
+export interface McpMessage {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+const ScopeArguments = {
+  "entityId?": "string",
+  "processId?": "string",
+  "sessionId?": "string",
+} as const;
+
+const TOOLS = {
+  memory_add: {
+    description:
+      "Store a memory (a fact, preference or event worth remembering) for later retrieval.",
+    arguments: type({
+      content: "string > 0",
+      "role?": "string",
+      "metadata?": "Record<string, unknown>",
+      ...ScopeArguments,
+    }),
+  },
+  memory_search: {
+    description:
+      "Search stored memories by meaning (and keywords in hybrid mode), most relevant first.",
+    arguments: type({
+      query: "string > 0",
+      "limit?": "1 <= number.integer <= 50",
+      "mode?": "'vector' | 'lexical' | 'hybrid'",
+      "filter?": "Record<string, unknown>",
+      ...ScopeArguments,
+    }),
+  },
+  memory_list: {
+    description: "List stored memories, oldest first, page by page.",
+    arguments: type({
+      "cursor?": "string",
+      "limit?": "1 <= number.integer <= 200",
+      ...ScopeArguments,
+    }),
+  },
+  memory_delete: {
+    description: "Delete a memory by ID.",
+    arguments: type({
+      id: "string > 0",
+      ...ScopeArguments,
+    }),
+  },
+};
+
+type ToolName = keyof typeof TOOLS;
+
+/** A validated tool call: the name narrows the type of the arguments */
+type ToolCall = {
+  [N in ToolName]: { name: N; input: (typeof TOOLS)[N]["arguments"]["infer"] };
+}[ToolName];
+
+/**
+ * JSON-RPC error with its code.
+ */
+class RpcError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Model Context Protocol server exposing a Memori instance as tools
+ * (`memory_add`, `memory_search`, `memory_list`, `memory_delete`) and resources
+ * (`memori://entities/{entityId}/memories`).
+ *
+ * The server is transport-agnostic: `handle` answers one message. Use `serveStdio` for the stdio transport.
+ */
+export class MemoriMcpServer {
+  private options: McpServerOptions;
+
+  constructor(
+    private memori: Memori,
+    options: McpServerOptions = {}
+  ) {
+    this.options = options;
+  }
+
+  /**
+   * Handles one JSON-RPC message.
+   * @returns The response, or null for notifications.
+   */
+  async handle(message: McpMessage): Promise<McpMessage | null> {
+    const isRequest = message.id !== undefined && message.id !== null;
+    try {
+      if (message.jsonrpc !== "2.0" || typeof message.method !== "string") {
+        throw new RpcError(-32600, "Invalid request");
+      }
+      const result = await this.dispatch(message.method, message.params || {});
+      return isRequest ? { jsonrpc: "2.0", id: message.id, result } : null;
+    } catch (e: any) {
+      if (!isRequest) return null;
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code: e instanceof RpcError ? e.code : -32603,
+          message: e.message,
+        },
+      };
+    }
+  }
+
+  private async dispatch(method: string, params: any): Promise<any> {
+    switch (method) {
+      case "initialize":
+        return {
+          protocolVersion: PROTOCOL_VERSIONS.includes(params.protocolVersion)
+            ? params.protocolVersion
+            : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: {
+            name: this.options.name || "memori",
+            version: this.options.version || packageVersion(),
+          },
+        };
+      case "ping":
+        return {};
+      case "notifications/initialized":
+      case "notifications/cancelled":
+        return null;
+      case "tools/list":
+        return {
+          tools: Object.entries(TOOLS).map(([name, tool]) => ({
+            name,
+            description: tool.description,
+            inputSchema: tool.arguments.toJsonSchema(),
+          })),
+        };
+      case "tools/call":
+        return this.callTool(params.name, params.arguments || {});
+      case "resources/list":
+        return { resources: await this.listEntityResources() };
+      case "resources/templates/list":
+        return {
+          resourceTemplates: [
+            {
+              uriTemplate: "memori://entities/{entityId}/memories",
+              name: "Entity memories",
+              description:
+                "All memories of an entity (user or agent), oldest first",
+              mimeType: "application/json",
+            },
+          ],
+        };
+      case "resources/read":
+        return this.readResource(params.uri);
+      default:
+        throw new RpcError(-32601, `Method not found: ${method}`);
+    }
+  }
+
+  /**
+   * Runs a tool. Invalid arguments and failures are reported as tool errors (`isError`),
+   * so the model can see and correct them.
+   */
+  private async callTool(name: string, args: any): Promise<any> {
+    const tool = TOOLS[name as ToolName];
+    if (!tool) throw new RpcError(-32602, `Unknown tool: ${name}`);
+
+    const input = tool.arguments(args);
+    if (input instanceof type.errors) {
+      return toolResult(`Invalid arguments: ${input.summary}`, true);
+    }
+    const scope: MemoryScope = {
+      ...this.options.scope,
+      ...(input.entityId !== undefined && { entityId: input.entityId }),
+      ...(input.processId !== undefined && { processId: input.processId }),
+      ...(input.sessionId !== undefined && { sessionId: input.sessionId }),
+    };
+
+    try {
+      return await this.memori.withScope(scope, () =>
+        this.runTool({ name, input } as ToolCall, scope)
+      );
+    } catch (e: any) {
+      return toolResult(e.message, true);
+    }
+  }
+
+  private async runTool(call: ToolCall, scope: MemoryScope): Promise<any> {
+    switch (call.name) {
+      case "memory_add": {
+        const { input } = call;
+        const [id] = await this.memori.addMemories([
+          {
+            content: input.content,
+            role: input.role,
+            metadata: input.metadata,
+          },
+        ]);
+        return toolResult(`Stored memory ${id}.`, false, { id });
+      }
+      case "memory_search": {
+        const { input } = call;
+        const results = await this.memori.search(
+          input.query,
+          input.limit ?? 5,
+          {
+            mode: input.mode,
+            filter: input.filter as MetadataFilter | undefined,
+          }
+        );
+        const memories = results.map((r) => ({
+          ...toJson(r),
+          similarity: r.similarity,
+        }));
+        return toolResult(
+          memories.length > 0
+            ? memories
+                .map(
+                  (m) =>
+                    `[${m.id}] ${m.content}${
+                      m.similarity !== undefined
+                        ? ` (similarity: ${m.similarity.toFixed(2)})`
+                        : ""
+                    }`
+                )
+                .join("\n")
+            : "No matching memories.",
+          false,
+          { memories }
+        );
+      }
+      case "memory_list": {
+        const { input } = call;
+        const page = await this.memori.listMemories(
+          scope,
+          input.cursor,
+          input.limit ?? 50
+        );
+        const memories = page.items.map(toJson);
+        return toolResult(
+          memories.length > 0
+            ? memories.map((m) => `[${m.id}] ${m.content}`).join("\n") +
+                (page.nextCursor ? `\n(more: cursor ${page.nextCursor})` : "")
+            : "No memories.",
+          false,
+          { memories, nextCursor: page.nextCursor }
+        );
+      }
+      case "memory_delete": {
+        const { input } = call;
+        const memory = await this.memori.getMemory(input.id);
+        // Memories outside the scope are reported as missing
+        if (
+          !memory ||
+          (scope.entityId && memory.metadata?.entityId !== scope.entityId) ||
+          (scope.processId && memory.metadata?.processId !== scope.processId)
+        ) {
+          return toolResult(`Memory ${input.id} not found.`, true);
+        }
+        await this.memori.deleteMemory(input.id);
+        return toolResult(`Deleted memory ${input.id}.`, false, {
+          id: input.id,
+        });
+      }
+    }
+  }
+
+  /**
+   * Lists one resource per entity found in the store (limited to the default scope, if any).
+   */
+  private async listEntityResources() {
+    const { entityId, processId } = this.options.scope || {};
+    const entities = new Set<string>();
+    let cursor: string | null = null;
+    do {
+      const page = await this.memori.listMemories(
+        { entityId, processId },
+        cursor,
+        1000
+      );
+      for (const memory of page.items) {
+        if (memory.metadata?.entityId) entities.add(memory.metadata.entityId);
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return [...entities].map((entity) => ({
+      uri: `memori://entities/${encodeURIComponent(entity)}/memories`,
+      name: `Memories of ${entity}`,
+      mimeType: "application/json",
+    }));
+  }
+
+  private async readResource(uri: string) {
+    const match = typeof uri === "string" ? ENTITY_URI.exec(uri) : null;
+    if (!match) throw new RpcError(-32002, `Resource not found: ${uri}`);
+    const entityId = decodeURIComponent(match[1]);
+    const scope = this.options.scope || {};
+    if (scope.entityId && scope.entityId !== entityId) {
+      throw new RpcError(-32002, `Resource not found: ${uri}`);
+    }
+
+    const memories: ReturnType<typeof toJson>[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.memori.listMemories(
+        { entityId, processId: scope.processId },
+        cursor,
+        1000
+      );
+      memories.push(...page.items.map(toJson));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return {
+      contents: [
+        { uri, mimeType: "application/json", text: JSON.stringify(memories) },
+      ],
+    };
+  }
+}
+
+/**
+ * Serves MCP over stdio: newline-delimited JSON-RPC messages on `input`, responses on `output`.
+ * Resolves when the input ends.
+ */
+export async function serveStdio(
+  server: MemoriMcpServer,
+  input: ImportSource,
+  output: { write(chunk: string): unknown }
+): Promise<void> {
+  const send = (message: McpMessage) =>
+    output.write(`${JSON.stringify(message)}\n`);
+
+  for await (const { line } of readLines(input)) {
+    let message: McpMessage;
+    try {
+      message = JSON.parse(line);
+    } catch (e) {
+      send({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32700, message: "Parse error" },
+      });
+      continue;
+    }
+    const response = await server.handle(message);
+    if (response) send(response);
+  }
+}
+
+let cachedVersion: string | undefined;
+
+/**
+ * Version of memori-js, read from the package.json found walking up from this file.
+ * The location of this file depends on the build (`src/`, `dist/`, `dist/bin/`), so no fixed relative path works.
+ */
+function packageVersion(): string {
+  if (cachedVersion) return cachedVersion;
+  cachedVersion = "unknown";
+  let dir = dirname(fileURLToPath(import.meta.url));
+  while (true) {
+    const file = join(dir, "package.json");
+    if (existsSync(file)) {
+      try {
+        const pkg = JSON.parse(readFileSync(file, "utf8"));
+        if (pkg.name === PACKAGE_NAME && pkg.version) {
+          cachedVersion = String(pkg.version);
+          break;
+        }
+      } catch (e) {
+        // Unreadable manifests are skipped
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return cachedVersion;
+}
+
+function toolResult(text: string, isError: boolean, structured?: object) {
+  return {
+    content: [{ type: "text", text }],
+    ...(structured && { structuredContent: structured }),
+    isError,
+  };
+}
+
+function toJson({ id, content, metadata }: MemoryRecord) {
+  return { id, content, metadata };
+}
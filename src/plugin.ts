@@ -1,22 +1,391 @@
-import { Elysia } from "elysia";
+import { Elysia, Context } from "elysia";
+import { type } from "arktype";
 import { Memori, MemoriOptions } from "./core/memory";
 import { createMemoriProxy } from "./core/proxy";
+import {
+  MemoryFilter,
+  MemoryRecord,
+  MemoryScope,
+  MetadataFilter,
+} from "./core/types";
+import { ConfigurationError, FilterError } from "./core/errors";
 import OpenAI from "openai";
 
+/**
+ * Options for the Elysia plugin itself (as opposed to the Memori instance).
+ */
+export interface MemoriPluginOptions {
+  /**
+   * Resolves the attribution of a request (e.g. from the authenticated user).
+   * Defaults to reading the `x-memori-entity-id`, `x-memori-process-id` and `x-memori-session-id` headers.
+   */
+  resolveScope?: (context: Context) => MemoryScope | Promise<MemoryScope>;
+  /**
+   * Exposes the memory REST API (`/memories`, `/stats`). Disabled by default.
+   * Pass `true` for the default settings.
+   */
+  routes?: boolean | MemoriRoutesOptions;
+  /**
+   * Exposes an OpenAI-compatible `POST /v1/chat/completions` that adds memory to any OpenAI client.
+   * Disabled by default.
+   */
+  gateway?: MemoriGatewayOptions;
+}
+
+/**
+ * Settings of the OpenAI-compatible chat completions gateway.
+ */
+export interface MemoriGatewayOptions {
+  /** Base URL of the upstream OpenAI-compatible API, e.g. "https://api.openai.com/v1" */
+  baseURL: string;
+  /** API key of the upstream. Defaults to the bearer token of each request, so clients keep their own keys. */
+  apiKey?: string;
+  /** Path prefix of the route. Defaults to none (`/v1/chat/completions`). */
+  prefix?: string;
+  /** Authorizes a request before it is forwarded. Return false to answer 401. */
+  authorize?: (context: Context) => boolean | Promise<boolean>;
+}
+
+/**
+ * Settings of the memory REST API.
+ */
+export interface MemoriRoutesOptions {
+  /** Path prefix of the routes, e.g. "/api". Defaults to none. */
+  prefix?: string;
+  /**
+   * Authorizes a request before it reaches a route. Return false to answer 401.
+   * The request scope (see `resolveScope`) limits which memories a request can access.
+   */
+  authorize?: (context: Context) => boolean | Promise<boolean>;
+}
+
+/**
+ * Reads the request attribution from the `x-memori-*` headers.
+ */
+export function scopeFromHeaders(
+  headers: Record<string, string | undefined>
+): MemoryScope {
+  return {
+    entityId: headers["x-memori-entity-id"] || undefined,
+    processId: headers["x-memori-process-id"] || undefined,
+    sessionId: headers["x-memori-session-id"] || undefined,
+  };
+}
+
 export const memoriPlugin =
-  (options: MemoriOptions = {}) =>
+  (options: MemoriOptions = {}, pluginOptions: MemoriPluginOptions = {}) =>
   (app: Elysia) => {
-    // Initialize single instance
+    // Initialize single instance, shared by all requests.
+    // Attribution is request-scoped (AsyncLocalStorage), never stored on the instance.
     const memori = new Memori(options);
+    const resolveScope =
+      pluginOptions.resolveScope ||
+      ((context: Context) => scopeFromHeaders(context.headers));
+
+    const routes = pluginOptions.routes;
+    if (routes) {
+      app.use(
+        memoriRoutes(memori, resolveScope, routes === true ? {} : routes)
+      );
+    }
 
-    return app.decorate("memori", memori).derive(({ memori }) => {
+    if (pluginOptions.gateway) {
+      app.use(memoriGateway(memori, resolveScope, pluginOptions.gateway));
+    }
+
+    return app.decorate("memori", memori).derive(async (context) => {
+      const memoriScope = await resolveScope(context as Context);
       return {
+        // Attribution of the current request
+        memoriScope,
+        // Runs a function within the current request's scope
+        withMemoriScope: <T>(fn: () => T) => memori.withScope(memoriScope, fn),
         // Helper to wrap a client on the fly
-        withMemory: (client: OpenAI) => createMemoriProxy(client, memori),
+        withMemory: (client: OpenAI) =>
+          createMemoriProxy(client, memori, memoriScope),
       };
     });
   };
 
+const NewMemoryBody = type({
+  content: "string > 0",
+  "role?": "string",
+  "metadata?": "Record<string, unknown>",
+});
+
+const UpdateMemoryBody = type({
+  "content?": "string > 0",
+  "metadata?": "Record<string, unknown>",
+});
+
+const SearchBody = type({
+  query: "string > 0",
+  "limit?": "1 <= number.integer <= 100",
+  "mode?": "'vector' | 'lexical' | 'hybrid'",
+  "filter?": "Record<string, unknown>",
+  "minSimilarity?": "0 <= number <= 1",
+});
+
+const ListQuery = type({
+  "entityId?": "string",
+  "processId?": "string",
+  "sessionId?": "string",
+  "cursor?": "string",
+  "limit?": "string.integer.parse |> 1 <= number <= 1000",
+});
+
+/**
+ * Builds the memory REST API.
+ * Every route is limited to the request scope: memories of another entity or process
+ * are reported as not found, and listing another entity's memories is forbidden.
+ */
+export function memoriRoutes(
+  memori: Memori,
+  resolveScope: (context: Context) => MemoryScope | Promise<MemoryScope>,
+  options: MemoriRoutesOptions = {}
+) {
+  // Memories outside the request scope are hidden rather than forbidden, so IDs can't be probed
+  const findInScope = async (id: string, scope: MemoryScope) => {
+    const memory = await memori.getMemory(id);
+    if (!memory) return null;
+    const { entityId, processId } = memory.metadata || {};
+    if (scope.entityId && entityId !== scope.entityId) return null;
+    if (scope.processId && processId !== scope.processId) return null;
+    return memory;
+  };
+  const notFound = { error: "Memory not found" };
+
+  return (
+    new Elysia({ prefix: options.prefix || "" })
+      .onBeforeHandle(async (context) => {
+        if (
+          options.authorize &&
+          !(await options.authorize(context as Context))
+        ) {
+          return context.status(401, { error: "Unauthorized" });
+        }
+      })
+      .onError(({ error, status }) => {
+        if (
+          error instanceof FilterError ||
+          error instanceof ConfigurationError
+        ) {
+          return status(400, { error: error.message });
+        }
+      })
+      .derive(async (context) => ({
+        scope: await resolveScope(context as Context),
+      }))
+      .post(
+        "/memories",
+        async ({ body, scope, status }) => {
+          const [id] = await memori.addMemories([
+            {
+              content: body.content,
+              role: body.role,
+              metadata: body.metadata,
+              scope,
+            },
+          ]);
+          return status(201, toJson((await memori.getMemory(id))!));
+        },
+        { body: NewMemoryBody }
+      )
+      .get(
+        "/memories",
+        async ({ query, scope, status }) => {
+          for (const key of ["entityId", "processId", "sessionId"] as const) {
+            if (scope[key] && query[key] && query[key] !== scope[key]) {
+              return status(403, { error: `Access to another ${key} denied` });
+            }
+          }
+          const filter: MemoryFilter = {
+            entityId: query.entityId || scope.entityId,
+            processId: query.processId || scope.processId,
+            sessionId: query.sessionId || scope.sessionId,
+          };
+          const page = await memori.listMemories(
+            filter,
+            query.cursor,
+            query.limit ?? 50
+          );
+          return { items: page.items.map(toJson), nextCursor: page.nextCursor };
+        },
+        { query: ListQuery }
+      )
+      .get("/memories/:id", async ({ params, scope, status }) => {
+        const memory = await findInScope(params.id, scope);
+        return memory ? toJson(memory) : status(404, notFound);
+      })
+      .patch(
+        "/memories/:id",
+        async ({ params, body, scope, status }) => {
+          if (!(await findInScope(params.id, scope))) {
+            return status(404, notFound);
+          }
+          // Attribution keys would move the memory out of the request scope
+          const updated = await memori.updateMemory(params.id, {
+            ...body,
+            metadata: body.metadata && withoutAttribution(body.metadata),
+          });
+          return updated ? toJson(updated) : status(404, notFound);
+        },
+        { body: UpdateMemoryBody }
+      )
+      .delete("/memories/:id", async ({ params, scope, status }) => {
+        if (!(await findInScope(params.id, scope))) {
+          return status(404, notFound);
+        }
+        await memori.deleteMemory(params.id);
+        return status(204, null);
+      })
+      .post(
+        "/memories/search",
+        async ({ body, scope }) => {
+          const results = await memori.search(body.query, body.limit ?? 5, {
+            mode: body.mode,
+            filter: body.filter as MetadataFilter | undefined,
+            minSimilarity: body.minSimilarity,
+            scope,
+          });
+          return results.map(({ distance, similarity, ...memory }) => ({
+            ...toJson(memory),
+            distance,
+            similarity,
+          }));
+        },
+        { body: SearchBody }
+      )
+      // `memori.stats` is process-wide (e.g. the last query of any tenant): only the cache counters are shared
+      .get("/stats", async ({ scope }) => ({
+        memories: await memori.countMemories({
+          entityId: scope.entityId,
+          processId: scope.processId,
+        }),
+        embeddingCache: memori.stats.embeddingCache,
+      }))
+  );
+}
+
+const ChatCompletionBody = type({
+  model: "string",
+  messages: "object[] > 0",
+  "stream?": "boolean",
+  "+": "ignore",
+});
+
+/**
+ * Builds the OpenAI-compatible chat completions gateway.
+ * Requests are forwarded to the upstream through `createMemoriProxy`, within the request scope,
+ * so context is injected and the conversation is stored like with a registered client.
+ * Streaming requests are answered with server-sent events in OpenAI's format.
+ */
+export function memoriGateway(
+  memori: Memori,
+  resolveScope: (context: Context) => MemoryScope | Promise<MemoryScope>,
+  options: MemoriGatewayOptions
+) {
+  const openaiError = (message: string, type: string) => ({
+    error: { message, type, param: null, code: null },
+  });
+
+  return new Elysia({ prefix: options.prefix || "" }).post(
+    "/v1/chat/completions",
+    async (context) => {
+      const { body, headers, status } = context;
+      if (options.authorize && !(await options.authorize(context as Context))) {
+        return status(401, openaiError("Unauthorized", "authentication_error"));
+      }
+      const apiKey =
+        options.apiKey || headers.authorization?.replace(/^Bearer\s+/i, "");
+      if (!apiKey) {
+        return status(
+          401,
+          openaiError("Missing API key", "authentication_error")
+        );
+      }
+
+      const client = createMemoriProxy(
+        new OpenAI({ apiKey, baseURL: options.baseURL }),
+        memori,
+        await resolveScope(context as Context)
+      );
+      try {
+        const response = await client.chat.completions.create(
+          body as unknown as OpenAI.Chat.ChatCompletionCreateParams
+        );
+        if (!body.stream) return response;
+        return eventStream(
+          response as unknown as AsyncIterable<OpenAI.Chat.ChatCompletionChunk>
+        );
+      } catch (e) {
+        // Upstream errors keep their status and OpenAI error body
+        if (e instanceof OpenAI.APIError && e.status) {
+          return status(
+            e.status,
+            e.error ? { error: e.error } : openaiError(e.message, "api_error")
+          );
+        }
+        return status(
+          502,
+          openaiError(
+            `Upstream request failed: ${(e as Error).message}`,
+            "api_error"
+          )
+        );
+      }
+    },
+    { body: ChatCompletionBody }
+  );
+}
+
+/**
+ * Serializes a chat completion stream as server-sent events, ending with `data: [DONE]`.
+ */
+function eventStream(chunks: AsyncIterable<unknown>): Response {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+  const stream = new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } else {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(value)}\n\n`)
+        );
+      }
+    },
+    // The client went away: stop reading the upstream stream (it is then not saved to memory)
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Response representation of a memory (vectors are left out).
+ */
+function toJson({ id, content, metadata }: MemoryRecord) {
+  return { id, content, metadata };
+}
+
+/**
+ * Drops the attribution keys (entity, process, session) of client-supplied metadata.
+ */
+function withoutAttribution(metadata: Record<string, unknown>) {
+  const { entityId, processId, sessionId, ...rest } = metadata;
+  return rest;
+}
+
 // Re-export core
 export * from "./core/memory";
 export * from "./core/db";
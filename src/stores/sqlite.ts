@@ -5,9 +5,35 @@ import {
   MemoryMetadata,
   MemoryResult,
   MemoryFilter,
+  MemoryRecord,
+  MemoryPage,
+  MemoryUpdate,
+  MemoryInput,
+  DistanceMetric,
+  MigrateOptions,
+  MigrationReport,
+  EmbeddingInfo,
+  ReembedBatch,
 } from "../core/types";
 import { Logger, ConsoleLogger } from "../core/logger";
-import { VectorStoreError } from "../core/errors";
+import {
+  EmbeddingMismatchError,
+  MemoriError,
+  VectorStoreError,
+} from "../core/errors";
+import { extractSearchTerms } from "../core/hybrid";
+import { distanceToSimilarity } from "../core/similarity";
+import {
+  Migration,
+  migrationReport,
+  pendingMigrations,
+} from "../core/migrations";
+import {
+  compileFilter,
+  fieldPath,
+  FilterDialect,
+  SQL_OPERATORS,
+} from "../core/filter";
 
 /**
  * Implementation of VectorStore using SQLite and the sqlite-vec extension.
@@ -18,90 +44,176 @@ export class SqliteVecStore implements VectorStore {
   private dbPath: string;
   private logger: Logger;
   private dimension: number;
+  private metric: DistanceMetric;
+  private txQueue: Promise<unknown> = Promise.resolve();
+  private extensionLoaded = false;
 
   /**
    * @param path - File path for the database. Defaults to "memori.db". Use ":memory:" for ephemeral storage.
    * @param logger - Logger instance.
    * @param dimension - Vector dimension size. Defaults to 768.
+   * @param metric - Distance metric. Defaults to "l2". Cosine and L2 use the vec0 KNN index;
+   * inner product is computed with a full scan, since vec0 doesn't support it.
    */
-  constructor(path = "memori.db", logger?: Logger, dimension = 768) {
+  constructor(
+    path = "memori.db",
+    logger?: Logger,
+    dimension = 768,
+    metric: DistanceMetric = "l2"
+  ) {
     this.dbPath = path;
     this.logger = logger || new ConsoleLogger();
     this.dimension = dimension;
+    this.metric = metric;
     // We do NOT initialize in constructor anymore to match async init() pattern
     // But sqlite3 sync constructor is fine, we just move "init logic" to init()
     this.db = new sqlite3.Database(this.dbPath);
   }
 
   /**
-   * Initializes the database schema and loads the vector extension.
-   * This sets up two tables:
+   * Loads the vector extension and brings the database schema up to date (see `migrate`).
+   * The schema consists of three tables:
    * 1. `memories`: Stores raw text content and metadata.
    * 2. `vec_memories`: Virtual table for vector storage and search.
+   * 3. `fts_memories`: FTS5 index over the content for lexical (BM25) search.
+   * @throws SchemaVersionError if the database was written by a newer version of memori-js.
    */
   async init(): Promise<void> {
     this.loadExtension();
-    return new Promise((resolve, reject) => {
-      this.db.serialize(() => {
-        // Enable Write-Ahead Logging for better concurrency
-        this.db.run("PRAGMA journal_mode = WAL;");
-
-        // 2. Create Vector Virtual Table (vec0)
-        // supporting variable dimensions
-        this.db.run(`
-            CREATE VIRTUAL TABLE IF NOT EXISTS vec_memories USING vec0(
-              embedding float[${this.dimension}]
-            );
-          `);
-
-        // Standard relational table for content and metadata
-        this.db.run(`
-            CREATE TABLE IF NOT EXISTS memories (
-              rowid INTEGER PRIMARY KEY AUTOINCREMENT,
-              content TEXT,
-              role TEXT,
-              entity_id TEXT,
-              process_id TEXT,
-              session_id TEXT,
-              created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-              metadata_json TEXT
-            );
-          `);
-
-        // Migration: Attempt to add metadata_json column if it doesn't exist (for existing DBs)
-        this.db.run(
-          "ALTER TABLE memories ADD COLUMN metadata_json TEXT;",
-          (err) => {
-            // Ignore error if column already exists
-          }
+    // Enable Write-Ahead Logging for better concurrency (not allowed inside a transaction,
+    // so it is queued ahead of the migration rather than racing its BEGIN)
+    this.txQueue = this.txQueue.then(() =>
+      this.run("PRAGMA journal_mode = WAL;").then(
+        () => undefined,
+        (err) => this.logger.warn("Could not enable WAL mode:", err)
+      )
+    );
+    // Queued right away, so writes issued before init() resolves wait for the schema
+    await this.migrate();
+  }
+
+  /**
+   * Applies the pending schema migrations in a single transaction and records them in `schema_migrations`.
+   * Databases created before schema versioning start at version 0; all migrations are idempotent.
+   * @param options - Set `dryRun` to only report the pending migrations.
+   * @throws SchemaVersionError if the database was written by a newer version of memori-js.
+   */
+  async migrate(options: MigrateOptions = {}): Promise<MigrationReport> {
+    if (options.dryRun) {
+      const fromVersion = await this.schemaVersion();
+      const pending = pendingMigrations(
+        SQLITE_MIGRATIONS,
+        fromVersion,
+        "SQLite"
+      );
+      return migrationReport(fromVersion, pending, true);
+    }
+
+    // Migrations create vec0 tables, which may happen before init()
+    this.loadExtension();
+    return this.transaction("Failed to migrate SQLite schema", async () => {
+      const existing = await this.all(
+        "SELECT name FROM sqlite_master WHERE name = 'memories'",
+        [],
+        "Failed to inspect SQLite schema"
+      );
+      await this.run(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          description TEXT,
+          applied_at TEXT DEFAULT CURRENT_TIMESTAMP
         );
+      `);
+      await this.checkVectorTable();
+      // Read inside the transaction, so concurrent init() calls don't apply a migration twice
+      const fromVersion = await this.schemaVersion();
+      const pending = pendingMigrations(
+        SQLITE_MIGRATIONS,
+        fromVersion,
+        "SQLite"
+      );
 
-        // Cleanup trigger: Automatically delete vector when metadata row is deleted
-        this.db.run(
-          `
-            CREATE TRIGGER IF NOT EXISTS delete_vec_memory
-            AFTER DELETE ON memories
-            BEGIN
-              DELETE FROM vec_memories WHERE rowid = old.rowid;
-            END;
-          `,
-          (err) => {
-            if (err)
-              reject(
-                new VectorStoreError("Failed to init SQLite trigger", err)
-              );
-            else resolve();
-          }
+      const context: SqliteMigrationContext = {
+        run: (sql) => this.run(sql),
+        all: (sql) => this.all(sql, [], "Failed to inspect SQLite schema"),
+        dimension: this.dimension,
+        metric: this.metric,
+      };
+      for (const migration of pending) {
+        await migration.up(context);
+        await this.run(
+          "INSERT INTO schema_migrations (version, description) VALUES (?, ?)",
+          [migration.version, migration.description]
         );
-      });
+      }
+      const report = migrationReport(fromVersion, pending, false);
+      // Creating a new database is routine, only upgrades are worth a line
+      if (existing.length > 0 && pending.length > 0) {
+        this.logger.info(
+          `Migrated SQLite schema from version ${fromVersion} to ${report.toVersion}`
+        );
+      }
+      return report;
     });
   }
 
+  /**
+   * Fails if the existing vector table doesn't match the configuration:
+   * the metric and dimension of a vec0 table are fixed at creation.
+   */
+  private async checkVectorTable(): Promise<void> {
+    const vecTable = await this.all(
+      "SELECT sql FROM sqlite_master WHERE name = 'vec_memories'",
+      [],
+      "Failed to inspect SQLite schema"
+    );
+    if (vecTable.length === 0) return;
+
+    const existing = /distance_metric\s*=\s*(\w+)/i.exec(vecTable[0].sql);
+    const existingMetric = existing ? existing[1].toLowerCase() : "l2";
+    if (existingMetric !== vecIndexMetric(this.metric)) {
+      throw new VectorStoreError(
+        `Vector table was created with the '${existingMetric}' metric, but '${this.metric}' was configured`
+      );
+    }
+
+    const dimension = Number(/float\[(\d+)\]/i.exec(vecTable[0].sql)?.[1]);
+    if (dimension && dimension !== this.dimension) {
+      throw new EmbeddingMismatchError(
+        `Vector table stores ${dimension}-dimensional vectors, but the store is configured for ${this.dimension} dimensions`,
+        { dimension },
+        { dimension: this.dimension }
+      );
+    }
+  }
+
+  /**
+   * Current schema version (0 for databases created before schema versioning).
+   */
+  private async schemaVersion(): Promise<number> {
+    const table = await this.all(
+      "SELECT name FROM sqlite_master WHERE name = 'schema_migrations'",
+      [],
+      "Failed to inspect SQLite schema"
+    );
+    if (table.length === 0) return 0;
+    const rows = await this.all(
+      "SELECT MAX(version) AS version FROM schema_migrations",
+      [],
+      "Failed to read schema version"
+    );
+    return rows[0]?.version || 0;
+  }
+
   /**
    * Dynamically loads the platform-specific sqlite-vec extension.
    * This allows the library to work on Mac, Linux, and Windows without manual setup.
    */
   private loadExtension() {
+    // init() and migrate() both need the extension, load it once per connection
+    if (this.extensionLoaded) return;
+    this.extensionLoaded = true;
+
     // Determine platform-specific package name
     let packageName = "";
     const platform = process.platform;
@@ -149,101 +261,111 @@ export class SqliteVecStore implements VectorStore {
 
   /**
    * Inserts a new memory and its vector embedding.
-   * Uses a transaction to ensure both tables are updated atomically.
+   * Uses a transaction to ensure both tables are updated atomically. It is queued
+   * with those of `update` and `delete`, since SQLite can't nest transactions.
    */
   async insert(
     content: string,
     embedding: number[],
     metadata?: MemoryMetadata
   ): Promise<string> {
+    return this.transaction("Failed to insert memory", () =>
+      this.insertRow({ content, embedding, metadata })
+    );
+  }
+
+  /**
+   * Inserts many memories in a single transaction.
+   * Much faster than repeated `insert` calls, which each commit (and sync) separately.
+   * Either all memories are inserted or none.
+   */
+  async insertMany(items: MemoryInput[]): Promise<string[]> {
+    if (items.length === 0) return [];
+    return this.transaction("Failed to insert memories", async () => {
+      const ids: string[] = [];
+      for (const item of items) {
+        ids.push(await this.insertRow(item));
+      }
+      return ids;
+    });
+  }
+
+  /**
+   * Inserts the metadata row and the vector of one memory. Must run inside a transaction.
+   */
+  private async insertRow({
+    content,
+    embedding,
+    metadata,
+  }: MemoryInput): Promise<string> {
     const role = metadata?.role || "user";
     const entityId = metadata?.entityId || null;
     const processId = metadata?.processId || null;
     const sessionId = metadata?.sessionId || null;
+    // Imported memories may carry their original timestamp
+    const createdAt = metadata?.created_at || null;
+    const expiresAt = metadata?.expiresAt || null;
 
-    return new Promise((resolve, reject) => {
-      const db = this.db;
-      db.serialize(() => {
-        db.run("BEGIN TRANSACTION");
-
-        let rowid: number;
-
-        // 1. Insert Metadata
-        const metadataJson = metadata ? JSON.stringify(metadata) : null;
-
-        db.run(
-          "INSERT INTO memories (content, role, entity_id, process_id, session_id, metadata_json) VALUES (?, ?, ?, ?, ?, ?)",
-          [content, role, entityId, processId, sessionId, metadataJson],
-          function (err) {
-            if (err) {
-              db.run("ROLLBACK");
-              return reject(
-                new VectorStoreError("Failed to insert metadata", err)
-              );
-            }
-            // @ts-ignore
-            rowid = this.lastID;
-
-            // 2. Insert Vector
-            // Must convert array to Float32Array buffer for sqlite-vec
-            const buffer = Buffer.from(new Float32Array(embedding).buffer);
-
-            db.run(
-              "INSERT INTO vec_memories(rowid, embedding) VALUES (?, ?)",
-              [rowid, buffer],
-              function (err) {
-                if (err) {
-                  db.run("ROLLBACK");
-                  return reject(
-                    new VectorStoreError("Failed to insert embeddings", err)
-                  );
-                }
-
-                db.run("COMMIT", (err) => {
-                  if (err)
-                    reject(
-                      new VectorStoreError("Failed to commit transaction", err)
-                    );
-                  else resolve(rowid.toString());
-                });
-              }
-            );
-          }
-        );
-      });
+    // 1. Insert Metadata
+    const metadataJson = metadata ? JSON.stringify(metadata) : null;
+
+    const { lastID: rowid } = await this.run(
+      "INSERT INTO memories (content, role, entity_id, process_id, session_id, created_at, expires_at, metadata_json) VALUES (?, ?, ?, ?, ?, COALESCE(datetime(?), CURRENT_TIMESTAMP), datetime(?), ?)",
+      [
+        content,
+        role,
+        entityId,
+        processId,
+        sessionId,
+        createdAt,
+        expiresAt,
+        metadataJson,
+      ]
+    ).catch((err) => {
+      throw new VectorStoreError("Failed to insert metadata", err);
     });
+
+    // 2. Insert Vector
+    // Must convert array to Float32Array buffer for sqlite-vec
+    const buffer = Buffer.from(new Float32Array(embedding).buffer);
+    await this.run("INSERT INTO vec_memories(rowid, embedding) VALUES (?, ?)", [
+      rowid,
+      buffer,
+    ]).catch((err) => {
+      throw new VectorStoreError("Failed to insert embeddings", err);
+    });
+
+    return rowid.toString();
   }
 
   /**
    * Searches for similar memories using KNN vector search.
-   * Can be filtered by entity, process, or session IDs.
+   * Can be filtered by entity, process, session IDs or metadata.
+   * Filters are applied inside the KNN query (`rowid IN (...)`), so up to `limit`
+   * matching results are returned even when most of the nearest vectors are filtered out.
    */
   async search(
     embedding: number[],
     limit = 5,
     filter?: MemoryFilter
   ): Promise<MemoryResult[]> {
+    const filterClause = this.buildFilterClause(filter);
+    if (this.metric === "inner_product") {
+      return this.scanSearch(embedding, limit, filterClause);
+    }
+
     // Basic vector search clause
-    let whereClause = "v.embedding MATCH ? AND k = ?";
+    const whereClause = `v.embedding MATCH ? AND k = ?${
+      filterClause.sql
+        ? ` AND v.rowid IN (SELECT m.rowid FROM memories m WHERE ${filterClause.sql})`
+        : ""
+    }`;
     const params: any[] = [
       Buffer.from(new Float32Array(embedding).buffer),
       limit,
+      ...filterClause.params,
     ];
 
-    // Append standard SQL filters if provided
-    if (filter?.entityId) {
-      whereClause += " AND m.entity_id = ?";
-      params.push(filter.entityId);
-    }
-    if (filter?.processId) {
-      whereClause += " AND m.process_id = ?";
-      params.push(filter.processId);
-    }
-    if (filter?.sessionId) {
-      whereClause += " AND m.session_id = ?";
-      params.push(filter.sessionId);
-    }
-
     const query = `
         SELECT 
             m.rowid,
@@ -252,7 +374,6 @@ export class SqliteVecStore implements VectorStore {
             m.role,
             m.entity_id,
             m.process_id,
-            m.process_id,
             m.session_id,
             m.metadata_json,
             v.distance
@@ -262,48 +383,387 @@ export class SqliteVecStore implements VectorStore {
         ORDER BY v.distance
       `;
 
-    return new Promise((resolve, reject) => {
-      this.db.all(query, params, (err, rows: any[]) => {
-        if (err) reject(new VectorStoreError("Search query failed", err));
-        else {
-          const results: MemoryResult[] = rows.map((r) => {
-            let parsedMetadata: any = {};
-            if (r.metadata_json) {
-              try {
-                parsedMetadata = JSON.parse(r.metadata_json);
-              } catch (e) {
-                // ignore
-              }
-            }
-            return {
-              id: r.rowid.toString(),
-              content: r.content,
-              embedding: [], // Optimization: don't return embedding unless asked to save bandwidth
-              distance: r.distance,
-              metadata: {
-                role: r.role,
-                created_at: r.created_at,
-                entityId: r.entity_id,
-                processId: r.process_id,
-                sessionId: r.session_id,
-                ...parsedMetadata,
-              },
-            };
-          });
-          resolve(results);
+    const rows = await this.all(query, params, "Search query failed");
+    return rows.map((r) => this.toResult(r));
+  }
+
+  /**
+   * Exact nearest-neighbour search computing the distance of every (filtered) row.
+   * Used for metrics the vec0 index doesn't support.
+   */
+  private async scanSearch(
+    embedding: number[],
+    limit: number,
+    filterClause: { sql: string; params: any[] }
+  ): Promise<MemoryResult[]> {
+    const distance = this.distanceExpression(embedding);
+    const rows = await this.all(
+      `
+        SELECT
+            m.rowid,
+            m.content,
+            m.created_at,
+            m.role,
+            m.entity_id,
+            m.process_id,
+            m.session_id,
+            m.metadata_json,
+            ${distance.sql} AS distance
+        FROM memories m
+        JOIN vec_memories v ON v.rowid = m.rowid${
+          filterClause.sql ? ` WHERE ${filterClause.sql}` : ""
         }
-      });
+        ORDER BY distance
+        LIMIT ?
+      `,
+      [...distance.params, ...filterClause.params, limit],
+      "Search query failed"
+    );
+    return rows.map((r) => this.toResult(r));
+  }
+
+  /**
+   * Full-text search over memory content using the FTS5 index, ranked by BM25.
+   * The query is split into terms that are OR-ed together, so punctuation in
+   * names, IDs or error codes never produces FTS syntax errors.
+   */
+  async lexicalSearch(
+    query: string,
+    embedding: number[],
+    limit = 5,
+    filter?: MemoryFilter
+  ): Promise<MemoryResult[]> {
+    const terms = extractSearchTerms(query);
+    if (terms.length === 0) return [];
+
+    const filterClause = this.buildFilterClause(filter);
+    const distance = this.distanceExpression(embedding);
+    const params: any[] = [
+      ...distance.params,
+      terms.map((t) => `"${t}"`).join(" OR "),
+      ...filterClause.params,
+      limit,
+    ];
+
+    const rows = await this.all(
+      `
+        SELECT
+            m.rowid,
+            m.content,
+            m.created_at,
+            m.role,
+            m.entity_id,
+            m.process_id,
+            m.session_id,
+            m.metadata_json,
+            CASE WHEN v.rowid IS NULL THEN NULL ELSE ${distance.sql} END AS distance
+        FROM fts_memories f
+        JOIN memories m ON f.rowid = m.rowid
+        LEFT JOIN vec_memories v ON v.rowid = m.rowid
+        WHERE fts_memories MATCH ?${
+          filterClause.sql ? ` AND ${filterClause.sql}` : ""
+        }
+        ORDER BY bm25(fts_memories)
+        LIMIT ?
+      `,
+      params,
+      "Lexical search query failed"
+    );
+
+    return rows.map((r) => this.toResult(r));
+  }
+
+  /**
+   * SQL expression computing the distance between `v.embedding` and the given vector under the configured metric.
+   */
+  private distanceExpression(embedding: number[]): {
+    sql: string;
+    params: any[];
+  } {
+    const query = Buffer.from(new Float32Array(embedding).buffer);
+    if (this.metric !== "inner_product") {
+      return {
+        sql: `vec_distance_${this.metric}(v.embedding, ?)`,
+        params: [query],
+      };
+    }
+
+    // sqlite-vec has no dot product: -a.b = (|a - b|^2 - |a|^2 - |b|^2) / 2
+    const origin = Buffer.from(new Float32Array(embedding.length).buffer);
+    const queryNorm = embedding.reduce((sum, x) => sum + x * x, 0);
+    return {
+      sql: `(vec_distance_l2(v.embedding, ?) * vec_distance_l2(v.embedding, ?) - vec_distance_l2(v.embedding, ?) * vec_distance_l2(v.embedding, ?) - ?) / 2`,
+      params: [query, query, origin, origin, queryNorm],
+    };
+  }
+
+  /**
+   * Retrieves a single memory, including its vector embedding.
+   */
+  async get(id: string): Promise<MemoryRecord | null> {
+    const rows = await this.all(
+      `${SELECT_RECORD} WHERE m.rowid = ?`,
+      [id],
+      `Failed to get memory ${id}`
+    );
+    return rows.length > 0 ? this.toRecord(rows[0]) : null;
+  }
+
+  /**
+   * Lists memories in insertion order using keyset pagination on the rowid.
+   * The cursor is the rowid of the last memory of the previous page.
+   */
+  async list(
+    filter?: MemoryFilter,
+    cursor?: string | null,
+    limit = 50
+  ): Promise<MemoryPage> {
+    const filterClause = this.buildFilterClause(filter);
+    const conditions = ["m.rowid > ?"];
+    const params: any[] = [cursor ? Number(cursor) : 0];
+    if (filterClause.sql) {
+      conditions.push(filterClause.sql);
+      params.push(...filterClause.params);
+    }
+    // Fetch one extra row to know whether another page exists
+    params.push(limit + 1);
+
+    const rows = await this.all(
+      `${SELECT_RECORD} WHERE ${conditions.join(" AND ")} ORDER BY m.rowid LIMIT ?`,
+      params,
+      "Failed to list memories"
+    );
+
+    const items = rows.slice(0, limit).map((r) => this.toRecord(r));
+    const nextCursor =
+      rows.length > limit && items.length > 0
+        ? items[items.length - 1].id
+        : null;
+    return { items, nextCursor };
+  }
+
+  /**
+   * Updates a memory in place.
+   * Metadata is merged into the stored metadata, and the indexed columns
+   * (role, entity, process, session, timestamps) are kept in sync with it.
+   * A new embedding replaces the old vector within the same transaction.
+   */
+  async update(id: string, update: MemoryUpdate): Promise<MemoryRecord | null> {
+    // The row is read inside the transaction, so concurrent updates don't lose each other's metadata
+    const found = await this.transaction(
+      `Failed to update memory ${id}`,
+      async () => {
+        const rows = await this.all(
+          "SELECT rowid, content, role, entity_id, process_id, session_id, expires_at, metadata_json FROM memories WHERE rowid = ?",
+          [id],
+          `Failed to update memory ${id}`
+        );
+        if (rows.length === 0) return false;
+        const row = rows[0];
+
+        const metadata: MemoryMetadata = {
+          ...parseMetadata(row.metadata_json),
+          ...(update.metadata || {}),
+        };
+
+        await this.run(
+          "UPDATE memories SET content = ?, role = ?, entity_id = ?, process_id = ?, session_id = ?, created_at = COALESCE(datetime(?), created_at), expires_at = datetime(?), metadata_json = ? WHERE rowid = ?",
+          [
+            update.content ?? row.content,
+            metadata.role ?? row.role,
+            metadata.entityId ?? row.entity_id,
+            metadata.processId ?? row.process_id,
+            metadata.sessionId ?? row.session_id,
+            update.metadata?.created_at ?? null,
+            // `expiresAt: null` removes the expiry
+            update.metadata && "expiresAt" in update.metadata
+              ? update.metadata.expiresAt
+              : row.expires_at,
+            JSON.stringify(metadata),
+            id,
+          ]
+        );
+
+        if (update.embedding) {
+          // vec0 rows are replaced rather than updated in place
+          await this.run("DELETE FROM vec_memories WHERE rowid = ?", [id]);
+          await this.run(
+            "INSERT INTO vec_memories(rowid, embedding) VALUES (?, ?)",
+            [Number(id), Buffer.from(new Float32Array(update.embedding).buffer)]
+          );
+        }
+        return true;
+      }
+    );
+    if (!found) return null;
+
+    return this.get(id);
+  }
+
+  /**
+   * Counts memories matching the filter.
+   */
+  async count(filter?: MemoryFilter): Promise<number> {
+    const filterClause = this.buildFilterClause(filter);
+    const rows = await this.all(
+      `SELECT COUNT(*) AS total FROM memories m${
+        filterClause.sql ? ` WHERE ${filterClause.sql}` : ""
+      }`,
+      filterClause.params,
+      "Failed to count memories"
+    );
+    return rows[0].total;
+  }
+
+  /**
+   * Deletes the memories whose `expiresAt` has passed. Triggers remove their vectors and index entries.
+   */
+  async prune(): Promise<number> {
+    return this.transaction("Failed to prune expired memories", async () => {
+      const { changes } = await this.run(
+        "DELETE FROM memories WHERE expires_at IS NOT NULL AND expires_at <= datetime('now')"
+      );
+      return changes;
     });
   }
 
   async delete(id: string): Promise<void> {
-    // Trigger handles vec deletion, just delete metadata row
-    return new Promise((resolve, reject) => {
-      this.db.run("DELETE FROM memories WHERE rowid = ?", [id], (err) => {
-        if (err)
-          reject(new VectorStoreError(`Failed to delete memory ${id}`, err));
-        else resolve();
-      });
+    // Trigger handles vec deletion, just delete metadata row.
+    // Queued with the transactions sharing the connection.
+    await this.transaction(`Failed to delete memory ${id}`, async () => {
+      await this.run("DELETE FROM memories WHERE rowid = ?", [id]);
+    });
+  }
+
+  async getEmbeddingInfo(): Promise<EmbeddingInfo | null> {
+    // Queued like writes, so a call right after construction waits for the schema
+    return this.transaction("Failed to read store metadata", () =>
+      this.readMeta("embedding")
+    );
+  }
+
+  async setEmbeddingInfo(
+    info: Omit<EmbeddingInfo, "dimension">
+  ): Promise<void> {
+    await this.writeMeta("embedding", {
+      provider: info.provider,
+      model: info.model,
+      dimension: this.dimension,
+    });
+  }
+
+  /**
+   * Creates `vec_memories_next` for the target model.
+   * An existing table prepared for the same target is kept, so an interrupted job resumes where it stopped.
+   */
+  async prepareReembed(target: EmbeddingInfo): Promise<void> {
+    await this.transaction("Failed to prepare re-embedding", async () => {
+      const current = await this.readMeta("reembed_target");
+      const exists =
+        (
+          await this.all(
+            "SELECT name FROM sqlite_master WHERE name = 'vec_memories_next'",
+            [],
+            "Failed to inspect SQLite schema"
+          )
+        ).length > 0;
+      if (exists && JSON.stringify(current) === JSON.stringify(target)) return;
+
+      await this.run("DROP TABLE IF EXISTS vec_memories_next");
+      await this.run(
+        vecTableSql("vec_memories_next", target.dimension, this.metric)
+      );
+      await this.writeMeta("reembed_target", target);
+    });
+  }
+
+  async pendingReembed(limit: number): Promise<ReembedBatch> {
+    const pending =
+      "FROM memories m WHERE m.rowid NOT IN (SELECT rowid FROM vec_memories_next)";
+    const rows = await this.all(
+      `SELECT m.rowid, m.content, m.created_at, m.role, m.entity_id, m.process_id, m.session_id, m.metadata_json
+       ${pending} ORDER BY m.rowid LIMIT ?`,
+      [limit],
+      "Failed to list memories to re-embed"
+    );
+    const count = await this.all(
+      `SELECT COUNT(*) AS remaining ${pending}`,
+      [],
+      "Failed to count memories to re-embed"
+    );
+    return {
+      items: rows.map((r) => this.toRecord(r)),
+      remaining: count[0].remaining,
+    };
+  }
+
+  async writeReembed(
+    items: { id: string; embedding: number[] }[]
+  ): Promise<void> {
+    await this.transaction("Failed to write re-embedded vectors", async () => {
+      for (const { id, embedding } of items) {
+        await this.run("DELETE FROM vec_memories_next WHERE rowid = ?", [
+          Number(id),
+        ]);
+        await this.run(
+          "INSERT INTO vec_memories_next (rowid, embedding) VALUES (?, ?)",
+          [Number(id), Buffer.from(new Float32Array(embedding).buffer)]
+        );
+      }
+    });
+  }
+
+  /**
+   * Replaces `vec_memories` with `vec_memories_next` in a single transaction.
+   */
+  async completeReembed(): Promise<void> {
+    const target = await this.transaction(
+      "Failed to complete re-embedding",
+      async () => {
+        const target: EmbeddingInfo | null =
+          await this.readMeta("reembed_target");
+        if (!target) {
+          throw new VectorStoreError("No re-embedding job was prepared");
+        }
+        const { remaining } = await this.pendingReembed(0);
+        if (remaining > 0) {
+          throw new VectorStoreError(
+            `Cannot complete re-embedding: ${remaining} memories have no new vector yet`
+          );
+        }
+
+        // vec0 tables can't be renamed: recreate and copy (skipping memories deleted meanwhile)
+        await this.run("DROP TABLE vec_memories");
+        await this.run(
+          vecTableSql("vec_memories", target.dimension, this.metric)
+        );
+        await this.run(
+          "INSERT INTO vec_memories (rowid, embedding) SELECT rowid, embedding FROM vec_memories_next WHERE rowid IN (SELECT rowid FROM memories)"
+        );
+        await this.run("DROP TABLE vec_memories_next");
+        await this.writeMeta("embedding", target);
+        await this.run("DELETE FROM memori_meta WHERE key = 'reembed_target'");
+        return target;
+      }
+    );
+    this.dimension = target.dimension;
+  }
+
+  private async readMeta(key: string): Promise<any> {
+    const rows = await this.all(
+      "SELECT value FROM memori_meta WHERE key = ?",
+      [key],
+      "Failed to read store metadata"
+    );
+    return rows.length > 0 ? JSON.parse(rows[0].value) : null;
+  }
+
+  private async writeMeta(key: string, value: any): Promise<void> {
+    await this.run(
+      "INSERT OR REPLACE INTO memori_meta (key, value) VALUES (?, ?)",
+      [key, JSON.stringify(value)]
+    ).catch((err) => {
+      throw new VectorStoreError("Failed to write store metadata", err);
     });
   }
 
@@ -315,4 +775,357 @@ export class SqliteVecStore implements VectorStore {
       });
     });
   }
+
+  /**
+   * Builds the SQL condition (on the `memories` table aliased as `m`) for a filter.
+   */
+  private buildFilterClause(filter?: MemoryFilter): {
+    sql: string;
+    params: any[];
+  } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter?.entityId) {
+      conditions.push("m.entity_id = ?");
+      params.push(filter.entityId);
+    }
+    if (filter?.processId) {
+      conditions.push("m.process_id = ?");
+      params.push(filter.processId);
+    }
+    if (filter?.sessionId) {
+      conditions.push("m.session_id = ?");
+      params.push(filter.sessionId);
+    }
+    if (filter?.metadata) {
+      const dialect = sqliteFilterDialect((value) => {
+        params.push(value);
+        return "?";
+      });
+      conditions.push(`(${compileFilter(filter.metadata, dialect)})`);
+    }
+    // Expired memories are gone for readers, even before they are pruned
+    if (!filter?.includeExpired) {
+      conditions.push(
+        "(m.expires_at IS NULL OR m.expires_at > datetime('now'))"
+      );
+    }
+
+    return { sql: conditions.join(" AND "), params };
+  }
+
+  /**
+   * Maps a joined `memories`/`vec_memories` row to a MemoryRecord.
+   */
+  private toRecord(r: any): MemoryRecord {
+    return {
+      id: r.rowid.toString(),
+      content: r.content,
+      embedding: r.embedding ? blobToVector(r.embedding) : [],
+      metadata: {
+        role: r.role,
+        created_at: r.created_at,
+        entityId: r.entity_id,
+        processId: r.process_id,
+        sessionId: r.session_id,
+        ...parseMetadata(r.metadata_json),
+      },
+    };
+  }
+
+  /**
+   * Maps a search row (with a `distance` column) to a MemoryResult.
+   */
+  private toResult(r: any): MemoryResult {
+    return {
+      ...this.toRecord(r),
+      embedding: [], // Optimization: don't return embedding unless asked to save bandwidth
+      distance: r.distance,
+      similarity: distanceToSimilarity(r.distance, this.metric),
+    };
+  }
+
+  /**
+   * Runs a set of statements inside a single transaction.
+   * Transactions are queued so that concurrent callers never interleave on the shared connection.
+   */
+  private transaction<T>(
+    errorMessage: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const next = this.txQueue.then(async () => {
+      await this.run("BEGIN TRANSACTION");
+      try {
+        const result = await fn();
+        await this.run("COMMIT");
+        return result;
+      } catch (e) {
+        await this.run("ROLLBACK").catch(() => {});
+        throw e instanceof MemoriError
+          ? e
+          : new VectorStoreError(errorMessage, e);
+      }
+    });
+    this.txQueue = next.catch(() => {});
+    return next;
+  }
+
+  private run(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve(this);
+      });
+    });
+  }
+
+  private all(
+    sql: string,
+    params: any[],
+    errorMessage: string
+  ): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) reject(new VectorStoreError(errorMessage, err));
+        else resolve(rows);
+      });
+    });
+  }
 }
+
+/**
+ * Columns selected when reading full memory records (including the raw vector).
+ */
+const SELECT_RECORD = `
+  SELECT
+      m.rowid,
+      m.content,
+      m.created_at,
+      m.role,
+      m.entity_id,
+      m.process_id,
+      m.session_id,
+      m.metadata_json,
+      v.embedding
+  FROM memories m
+  LEFT JOIN vec_memories v ON v.rowid = m.rowid`;
+
+/**
+ * Standard metadata fields that are stored in their own columns.
+ */
+const FILTER_COLUMNS: Record<string, string> = {
+  role: "m.role",
+  entityId: "m.entity_id",
+  processId: "m.process_id",
+  sessionId: "m.session_id",
+};
+
+/**
+ * Compiles metadata filter comparisons to SQLite, reading custom keys with `json_extract`.
+ * @param bind - Binds a parameter and returns its placeholder.
+ */
+function sqliteFilterDialect(bind: (value: any) => string): FilterDialect {
+  return {
+    compare(field, op, value) {
+      if (field === "created_at") {
+        // datetime() normalizes both SQLite's and ISO 8601 timestamp formats
+        const expr = "datetime(m.created_at)";
+        if (op === "$exists")
+          return `m.created_at IS ${value ? "NOT " : ""}NULL`;
+        if (op === "$in") {
+          return value.length > 0
+            ? `${expr} IN (${value.map((v: any) => `datetime(${bind(v)})`).join(", ")})`
+            : "1=0";
+        }
+        return `${expr} ${SQL_OPERATORS[op]} datetime(${bind(value)})`;
+      }
+
+      const column = FILTER_COLUMNS[field];
+      const path = () =>
+        bind(
+          `$${fieldPath(field)
+            .map((key) => `."${key}"`)
+            .join("")}`
+        );
+      const expr = () => column || `json_extract(m.metadata_json, ${path()})`;
+
+      switch (op) {
+        case "$exists":
+          return `${
+            column || `json_type(m.metadata_json, ${path()})`
+          } IS ${value ? "NOT " : ""}NULL`;
+        case "$eq":
+          return value === null
+            ? `${expr()} IS NULL`
+            : `${expr()} = ${bind(value)}`;
+        case "$ne":
+          return `${expr()} IS NOT ${bind(value)}`;
+        case "$in":
+          return value.length > 0
+            ? `${expr()} IN (${value.map((v: any) => bind(v)).join(", ")})`
+            : "1=0";
+        default: {
+          // SQLite orders mixed types by storage class, so restrict range comparisons to matching types
+          const types =
+            typeof value === "number" ? "'integer', 'real'" : "'text'";
+          return `(typeof(${expr()}) IN (${types}) AND ${expr()} ${
+            SQL_OPERATORS[op]
+          } ${bind(value)})`;
+        }
+      }
+    },
+  };
+}
+
+function parseMetadata(json: string | null): MemoryMetadata {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    return {};
+  }
+}
+
+function blobToVector(blob: Buffer): number[] {
+  // Copy into a fresh buffer: the blob's byteOffset is not guaranteed to be 4-byte aligned
+  return Array.from(new Float32Array(new Uint8Array(blob).buffer));
+}
+
+/**
+ * Metric of the vec0 table. Inner product is computed with a full scan over an L2 table.
+ */
+function vecIndexMetric(metric: DistanceMetric): "cosine" | "l2" {
+  return metric === "cosine" ? "cosine" : "l2";
+}
+
+/**
+ * CREATE statement of a vec0 vector table.
+ */
+function vecTableSql(
+  name: string,
+  dimension: number,
+  metric: DistanceMetric
+): string {
+  return `CREATE VIRTUAL TABLE IF NOT EXISTS ${name} USING vec0(embedding float[${dimension}]${
+    vecIndexMetric(metric) === "cosine" ? " distance_metric=cosine" : ""
+  })`;
+}
+
+interface SqliteMigrationContext {
+  run(sql: string): Promise<unknown>;
+  all(sql: string): Promise<any[]>;
+  dimension: number;
+  metric: DistanceMetric;
+}
+
+/**
+ * Schema migrations of `SqliteVecStore`, in order. Never edit a released migration: add a new one.
+ */
+const SQLITE_MIGRATIONS: Migration<SqliteMigrationContext>[] = [
+  {
+    version: 1,
+    description: "Create memories and vec_memories tables",
+    up: async ({ run, dimension, metric }) => {
+      await run(`
+        CREATE TABLE IF NOT EXISTS memories (
+          rowid INTEGER PRIMARY KEY AUTOINCREMENT,
+          content TEXT,
+          role TEXT,
+          entity_id TEXT,
+          process_id TEXT,
+          session_id TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+      await run(vecTableSql("vec_memories", dimension, metric));
+      // Cleanup trigger: Automatically delete vector when metadata row is deleted
+      await run(`
+        CREATE TRIGGER IF NOT EXISTS delete_vec_memory
+        AFTER DELETE ON memories
+        BEGIN
+          DELETE FROM vec_memories WHERE rowid = old.rowid;
+        END;
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Add metadata_json column to memories",
+    up: async ({ run, all }) => {
+      const columns = await all("PRAGMA table_info(memories)");
+      if (!columns.some((c) => c.name === "metadata_json")) {
+        await run("ALTER TABLE memories ADD COLUMN metadata_json TEXT;");
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Add fts_memories full-text index with sync triggers",
+    up: async ({ run, all }) => {
+      const exists =
+        (
+          await all(
+            "SELECT name FROM sqlite_master WHERE name = 'fts_memories'"
+          )
+        ).length > 0;
+
+      // External content: the text itself lives in `memories`
+      await run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS fts_memories USING fts5(
+          content, content='memories', content_rowid='rowid'
+        );
+      `);
+      await run(`
+        CREATE TRIGGER IF NOT EXISTS fts_memories_insert
+        AFTER INSERT ON memories
+        BEGIN
+          INSERT INTO fts_memories(rowid, content) VALUES (new.rowid, new.content);
+        END;
+      `);
+      await run(`
+        CREATE TRIGGER IF NOT EXISTS fts_memories_delete
+        AFTER DELETE ON memories
+        BEGIN
+          INSERT INTO fts_memories(fts_memories, rowid, content) VALUES ('delete', old.rowid, old.content);
+        END;
+      `);
+      await run(`
+        CREATE TRIGGER IF NOT EXISTS fts_memories_update
+        AFTER UPDATE OF content ON memories
+        BEGIN
+          INSERT INTO fts_memories(fts_memories, rowid, content) VALUES ('delete', old.rowid, old.content);
+          INSERT INTO fts_memories(rowid, content) VALUES (new.rowid, new.content);
+        END;
+      `);
+      // Backfill the index with the existing memories
+      if (!exists) {
+        await run("INSERT INTO fts_memories(fts_memories) VALUES ('rebuild');");
+      }
+    },
+  },
+  {
+    version: 4,
+    description:
+      "Add memori_meta table (embedding model of the stored vectors)",
+    up: async ({ run }) => {
+      await run(
+        "CREATE TABLE IF NOT EXISTS memori_meta (key TEXT PRIMARY KEY, value TEXT);"
+      );
+    },
+  },
+  {
+    version: 5,
+    description: "Add expires_at column to memories",
+    up: async ({ run, all }) => {
+      const columns = await all("PRAGMA table_info(memories)");
+      if (!columns.some((c) => c.name === "expires_at")) {
+        await run("ALTER TABLE memories ADD COLUMN expires_at TEXT;");
+      }
+      // Partial index: most memories never expire
+      await run(
+        "CREATE INDEX IF NOT EXISTS memories_expires_at ON memories(expires_at) WHERE expires_at IS NOT NULL;"
+      );
+    },
+  },
+];
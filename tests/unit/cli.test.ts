@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, rmSync, rmdirSync, unlinkSync } from "fs";
+import { Readable } from "stream";
+import { runCli } from "../../src/cli";
+import { Memori } from "../../src/core/memory";
+import { EmbeddingProvider } from "../../src/core/types";
+
+const path = "/tmp/memori-cli-test.db";
+const exportPath = "/tmp/memori-cli-test.jsonl";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [text.length / 100, 0.2, 0.3];
+  }
+}
+
+async function run(...argv: string[]) {
+  let stdout = "";
+  let stderr = "";
+  const code = await runCli(["--db", path, ...argv], {
+    stdout: {
+      write: (chunk: string) => ((stdout += chunk), true),
+      once: () => undefined,
+    },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+    stdin: Readable.from([]),
+    env: {},
+  });
+  return { code, stdout, stderr };
+}
+
+describe("memori CLI", () => {
+  beforeEach(async () => {
+    const memori = new Memori({
+      dbPath: path,
+      embedding: new MockEmbedding(),
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+    await memori.addMemories([
+      { content: "I like tea", scope: { entityId: "alice" } },
+      { content: "I live in Lisbon", scope: { entityId: "alice" } },
+      { content: "I play chess", scope: { entityId: "bob" } },
+    ]);
+  });
+
+  afterEach(() => {
+    for (const file of [path, `${path}-wal`, `${path}-shm`, exportPath]) {
+      if (existsSync(file)) unlinkSync(file);
+    }
+  });
+
+  it("should report stats with the detected dimension", async () => {
+    const { code, stdout } = await run("stats", "--json");
+    expect(code).toBe(0);
+    const stats = JSON.parse(stdout);
+    expect(stats.memories).toBe(3);
+    expect(stats.entities).toEqual({ alice: 2, bob: 1 });
+    expect(stats.embedding).toEqual({
+      provider: "MockEmbedding",
+      model: null,
+      dimension: 3,
+    });
+  });
+
+  it("should list and show memories", async () => {
+    const list = await run("list", "--entity", "alice", "--json");
+    const { items } = JSON.parse(list.stdout);
+    expect(items.map((m: any) => m.content)).toEqual([
+      "I like tea",
+      "I live in Lisbon",
+    ]);
+
+    const show = await run("show", items[0].id);
+    expect(show.stdout).toContain("Content: I like tea");
+    expect(show.stdout).toContain("Vector:  3 dimensions");
+  });
+
+  it("should only delete by filter with --yes", async () => {
+    const dryRun = await run("delete", "--entity", "bob");
+    expect(dryRun.stdout).toContain("Would delete 1 memories");
+
+    const deleted = await run("delete", "--entity", "bob", "--yes");
+    expect(deleted.stdout).toContain("Deleted 1 memories");
+    const stats = JSON.parse((await run("stats", "--json")).stdout);
+    expect(stats.memories).toBe(2);
+  });
+
+  it("should export to a file", async () => {
+    const { code, stdout } = await run(
+      "export",
+      exportPath,
+      "--include-embeddings"
+    );
+    expect(code).toBe(0);
+    expect(stdout).toContain("Exported 3 memories");
+    const lines = (await Bun.file(exportPath).text()).trim().split("\n");
+    expect(JSON.parse(lines[2]).embedding).toHaveLength(3);
+  });
+
+  it("should report migrations", async () => {
+    const { stdout } = await run("migrate", "--dry-run");
+    expect(stdout).toContain("Schema is up to date");
+  });
+
+  it("should fail with a clear message", async () => {
+    const search = await run("search", "tea");
+    expect(search.code).toBe(1);
+    expect(search.stderr).toContain("needs an embedding provider");
+
+    const missing = await run("show", "999");
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain("Memory 999 not found");
+
+    expect((await run("unknown")).code).toBe(2);
+  });
+});
+
+describe("memori bin", () => {
+  const root = `${import.meta.dir}/../..`;
+  // Inside the package, so the bundle resolves its dependencies and package.json like an install would
+  const outdir = `${root}/build/bin-test/dist`;
+
+  afterEach(() => {
+    rmSync(`${root}/build/bin-test`, { recursive: true, force: true });
+    try {
+      // Only removed if nothing else is in it
+      rmdirSync(`${root}/build`);
+    } catch (e) {}
+  });
+
+  it("should run from the bundled package layout", () => {
+    const build = Bun.spawnSync(
+      [
+        "bun",
+        "build",
+        "./src/index.ts",
+        "./src/bin/memori.ts",
+        "--outdir",
+        outdir,
+        "--target",
+        "node",
+        "--external",
+        "sqlite3",
+      ],
+      { cwd: root }
+    );
+    expect(build.exitCode).toBe(0);
+
+    const help = Bun.spawnSync(["node", `${outdir}/bin/memori.js`, "--help"]);
+    expect(help.stderr.toString()).toBe("");
+    expect(help.exitCode).toBe(0);
+    expect(help.stdout.toString()).toContain("Usage: memori");
+  }, 60000);
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+// Minimal stand-in for the SDK's event stream
+function mockStream(texts: string[]) {
+  return {
+    controller: new AbortController(),
+    async *[Symbol.asyncIterator]() {
+      yield { type: "message_start", message: { content: [] } };
+      yield { type: "content_block_start", index: 0 };
+      for (const text of texts) {
+        yield {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "text_delta", text },
+        };
+      }
+      yield { type: "content_block_stop", index: 0 };
+      yield { type: "message_stop" };
+    },
+  };
+}
+
+describe("Anthropic message handling", () => {
+  let memori: Memori;
+  let client: any;
+  let requests: any[];
+
+  beforeEach(async () => {
+    memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new MockEmbedding(),
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+    await memori.addMemory("The user's name is John");
+    await memori.augmentation.wait();
+
+    requests = [];
+    client = {
+      messages: {
+        create: async (body: any) => {
+          requests.push(body);
+          if (body.stream) return mockStream(["Your name ", "is John."]);
+          return {
+            content: [
+              { type: "text", text: "Let me check." },
+              { type: "tool_use", id: "t1", name: "lookup", input: {} },
+            ],
+          };
+        },
+      },
+    };
+    memori.llm.register(client, "anthropic");
+  });
+
+  const contents = async () =>
+    (await memori.listMemories({})).items.map((m) => [
+      m.metadata?.role,
+      m.content,
+    ]);
+
+  it("should search with the text blocks of a content array", async () => {
+    await client.messages.create({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "image", source: { type: "base64", data: "..." } },
+            { type: "text", text: "Who is in this picture?" },
+          ],
+        },
+      ],
+    });
+
+    expect(requests[0].system).toContain("The user's name is John");
+    expect(memori.stats.lastRun?.usedQuery).toBe("Who is in this picture?");
+    await memori.augmentation.wait();
+    expect((await contents()).slice(1)).toEqual([
+      ["user", "Who is in this picture?"],
+      ["assistant", "Let me check."],
+    ]);
+  });
+
+  it("should append a block to array system prompts", async () => {
+    const system = [
+      {
+        type: "text",
+        text: "You are helpful.",
+        cache_control: { type: "ephemeral" },
+      },
+    ];
+    await client.messages.create({
+      system,
+      messages: [{ role: "user", content: "What is my name?" }],
+    });
+
+    expect(requests[0].system).toHaveLength(2);
+    expect(requests[0].system[0]).toEqual(system[0]);
+    expect(requests[0].system[1].type).toBe("text");
+    expect(requests[0].system[1].text).toContain("The user's name is John");
+    expect(system).toHaveLength(1);
+  });
+
+  it("should not use or save tool_result turns", async () => {
+    await client.messages.create({
+      messages: [
+        { role: "user", content: "What is my name?" },
+        {
+          role: "assistant",
+          content: [{ type: "tool_use", id: "t1", name: "lookup", input: {} }],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "t1", content: "42 rows" },
+          ],
+        },
+      ],
+    });
+
+    expect(memori.stats.lastRun?.usedQuery).toBe("What is my name?");
+    expect(requests[0].system).toContain("The user's name is John");
+    await memori.augmentation.wait();
+    expect((await contents()).slice(1)).toEqual([
+      ["assistant", "Let me check."],
+    ]);
+  });
+
+  it("should save streamed messages once the stream completes", async () => {
+    const stream = await client.messages.create({
+      stream: true,
+      messages: [{ role: "user", content: "What is my name?" }],
+    });
+    expect(requests[0].system).toContain("The user's name is John");
+
+    const types: string[] = [];
+    for await (const event of stream) {
+      types.push(event.type);
+    }
+    expect(types).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_stop",
+    ]);
+    expect(stream.controller).toBeInstanceOf(AbortController);
+
+    await memori.augmentation.wait();
+    expect((await contents()).slice(1)).toEqual([
+      ["user", "What is my name?"],
+      ["assistant", "Your name is John."],
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, mock } from "bun:test";
+import { Readable } from "stream";
+import { Memori } from "../../../src/core/memory";
+import { readLines } from "../../../src/core/archive";
+import { ImportError } from "../../../src/core/errors";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  readonly model = "mock-1";
+  embed = mock(async (text: string) => [text.length / 100, 0.5, 0.5]);
+}
+
+class Sink {
+  public chunks: string[] = [];
+  write(chunk: string) {
+    this.chunks.push(chunk);
+    return true;
+  }
+  once() {
+    return this;
+  }
+  get text() {
+    return this.chunks.join("");
+  }
+}
+
+function createMemori(embedding: EmbeddingProvider = new MockEmbedding()) {
+  return new Memori({ dbPath: ":memory:", embedding, embeddingDimension: 3 });
+}
+
+async function exported(memori: Memori, includeEmbeddings = false) {
+  const sink = new Sink();
+  await memori.export(sink, { includeEmbeddings });
+  return sink.text;
+}
+
+describe("Export and import", () => {
+  it("should export memories as JSON Lines", async () => {
+    const memori = createMemori();
+    await memori.addMemories([
+      { content: "I like tea", scope: { entityId: "alice" } },
+      { content: "I live in Lisbon", metadata: { topic: "home" } },
+    ]);
+
+    const progress: number[] = [];
+    const sink = new Sink();
+    const report = await memori.export(sink, {
+      filter: {},
+      includeEmbeddings: true,
+      batchSize: 1,
+      onProgress: (done) => progress.push(done),
+    });
+    expect(report.exported).toBe(2);
+    expect(progress).toEqual([1, 2]);
+
+    const records = sink.text
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+    expect(records.map((r) => r.content)).toEqual([
+      "I like tea",
+      "I live in Lisbon",
+    ]);
+    expect(records[0].metadata.entityId).toBe("alice");
+    expect(records[1].metadata.topic).toBe("home");
+    expect(records[0].created_at).toMatch(/^\d{4}-\d{2}-\d{2}T.*Z$/);
+    expect(records[0].embedding).toHaveLength(3);
+    expect(records[0].embedding_model).toEqual({
+      provider: "MockEmbedding",
+      model: "mock-1",
+      dimension: 3,
+    });
+
+    expect(
+      JSON.parse((await exported(memori)).split("\n")[0])
+    ).not.toHaveProperty("embedding");
+  });
+
+  it("should reuse vectors of the same model", async () => {
+    const source = createMemori();
+    await source.addMemories(["I like tea", "I live in Lisbon"]);
+    const archive = await exported(source, true);
+
+    const provider = new MockEmbedding();
+    const target = createMemori(provider);
+    const report = await target.import(Readable.from([archive]));
+
+    expect(report).toEqual({
+      imported: 2,
+      overwritten: 0,
+      skipped: 0,
+      reembedded: 0,
+    });
+    expect(provider.embed).not.toHaveBeenCalled();
+    const results = await target.search("I live in Lisbon", 1);
+    expect(results[0].content).toBe("I live in Lisbon");
+  });
+
+  it("should re-embed records of another model", async () => {
+    const source = createMemori({ embed: async () => [0.9, 0.1, 0.1] });
+    await source.addMemory("I like tea");
+    const archive = await exported(source, true);
+
+    const provider = new MockEmbedding();
+    const report = await createMemori(provider).import(
+      Readable.from([archive])
+    );
+    expect(report.reembedded).toBe(1);
+    expect(provider.embed).toHaveBeenCalledWith("I like tea");
+  });
+
+  it("should handle ID conflicts", async () => {
+    const memori = createMemori();
+    await memori.addMemory("I like tea");
+    const archive = (await exported(memori)).replace(
+      "I like tea",
+      "I like coffee"
+    );
+
+    const skipped = await memori.import(Readable.from([archive]));
+    expect(skipped.skipped).toBe(1);
+    expect((await memori.getMemory("1"))?.content).toBe("I like tea");
+
+    const overwritten = await memori.import(Readable.from([archive]), {
+      onConflict: "overwrite",
+    });
+    expect(overwritten.overwritten).toBe(1);
+    expect((await memori.getMemory("1"))?.content).toBe("I like coffee");
+
+    await memori.import(Readable.from([archive]), { onConflict: "duplicate" });
+    expect(await memori.countMemories({})).toBe(2);
+  });
+
+  it("should reject invalid lines", async () => {
+    const memori = createMemori();
+    const error = await memori
+      .import(Readable.from(['{"content": "ok"}\n', "not json\n"]))
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ImportError);
+    expect(error.line).toBe(2);
+  });
+
+  it("should split lines across chunks", async () => {
+    const lines: string[] = [];
+    for await (const { line } of readLines(
+      Readable.from([Buffer.from('{"a":'), "1}\n\n", '{"b":2}'])
+    )) {
+      lines.push(line);
+    }
+    expect(lines).toEqual(['{"a":1}', '{"b":2}']);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+describe("Bulk memory import", () => {
+  let memori: Memori;
+  let embed: ReturnType<typeof mock>;
+  let embedBatch: ReturnType<typeof mock>;
+
+  beforeEach(async () => {
+    embed = mock(async (text: string) => [1, 0, 0]);
+    embedBatch = mock(async (texts: string[]) => texts.map(() => [1, 0, 0]));
+    const provider: EmbeddingProvider = { embed, embedBatch };
+
+    memori = new Memori({
+      dbPath: ":memory:",
+      embedding: provider,
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+  });
+
+  it("should embed and insert memories in batches", async () => {
+    const texts = Array.from({ length: 25 }, (_, i) => `Message ${i}`);
+    const progress: number[] = [];
+
+    const ids = await memori.addMemories(texts, {
+      batchSize: 10,
+      concurrency: 2,
+      onProgress: (completed) => progress.push(completed),
+    });
+
+    expect(ids.length).toBe(25);
+    expect(embedBatch).toHaveBeenCalledTimes(3);
+    expect(embed).not.toHaveBeenCalled();
+    expect(progress[progress.length - 1]).toBe(25);
+
+    // IDs are returned in input order
+    const memories = await Promise.all(ids.map((id) => memori.getMemory(id)));
+    expect(memories.map((m) => m?.content)).toEqual(texts);
+  });
+
+  it("should keep roles, scope and original timestamps", async () => {
+    memori.attribution("user-1", "agent-1");
+    const [id] = await memori.addMemories([
+      {
+        content: "Old message",
+        role: "assistant",
+        scope: { sessionId: "legacy" },
+        metadata: { created_at: "2023-03-04T05:06:07Z" },
+      },
+    ]);
+
+    const memory = await memori.getMemory(id);
+    expect(memory?.metadata?.role).toBe("assistant");
+    expect(memory?.metadata?.entityId).toBe("user-1");
+    expect(memory?.metadata?.sessionId).toBe("legacy");
+
+    const older = await memori.countMemories({
+      metadata: { created_at: { $lt: "2024-01-01T00:00:00Z" } },
+    });
+    expect(older).toBe(1);
+  });
+
+  it("should fall back to single embeddings without embedBatch", async () => {
+    const provider: EmbeddingProvider = { embed };
+    const plain = new Memori({
+      dbPath: ":memory:",
+      embedding: provider,
+      embeddingDimension: 3,
+    });
+    await plain.config.storage.build();
+
+    const ids = await plain.addMemories(["a", "b", "c"]);
+    expect(ids.length).toBe(3);
+    expect(embed).toHaveBeenCalledTimes(3);
+  });
+});
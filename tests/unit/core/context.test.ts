@@ -0,0 +1,85 @@
+import { describe, it, expect } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { ContextBuilder } from "../../../src/core/context";
+import { EmbeddingProvider, MemoryResult } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+function result(
+  id: string,
+  content: string,
+  metadata: Record<string, any> = {}
+): MemoryResult {
+  return { id, content, embedding: [], metadata, distance: 0, similarity: 0.9 };
+}
+
+const results = [
+  result("3", "I live in Lisbon", { created_at: "2024-03-01 10:00:00" }),
+  result("1", "I live in Lisbon!", { created_at: "2024-01-01 10:00:00" }),
+  result("2", "My favorite drink is green tea", {
+    role: "user",
+    created_at: "2024-02-01 10:00:00",
+  }),
+];
+
+describe("ContextBuilder", () => {
+  it("should render the header and lines without scores by default", () => {
+    const { text, memories } = new ContextBuilder().build(results);
+    expect(text).toBe(
+      "Use the following memory context to answer the user if relevant:\n" +
+        "- I live in Lisbon\n" +
+        "- My favorite drink is green tea"
+    );
+    // The near-identical memory is dropped
+    expect(memories.map((m) => m.id)).toEqual(["3", "2"]);
+  });
+
+  it("should apply templates, chronological order and dedup settings", () => {
+    const { text } = new ContextBuilder({
+      header: "Known facts:",
+      template: "[{created_at}] {role}: {content}",
+      order: "chronological",
+      dedupe: false,
+    }).build(results);
+    expect(text.split("\n")).toEqual([
+      "Known facts:",
+      "[2024-01-01 10:00:00] : I live in Lisbon!",
+      "[2024-02-01 10:00:00] user: My favorite drink is green tea",
+      "[2024-03-01 10:00:00] : I live in Lisbon",
+    ]);
+  });
+
+  it("should keep the most relevant memories within the token budget", () => {
+    const builder = new ContextBuilder({
+      header: "",
+      maxTokens: 5,
+      tokenizer: (text) => text.split(/\s+/).length,
+    });
+    // "- I live in Lisbon" is 5 words; the tea line doesn't fit after it
+    expect(builder.build(results).text).toBe("- I live in Lisbon");
+    expect(new ContextBuilder({ maxTokens: 1 }).build(results)).toEqual({
+      text: "",
+      memories: [],
+    });
+  });
+
+  it("should limit Memori's retrieval to topK", async () => {
+    const memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new MockEmbedding(),
+      embeddingDimension: 3,
+      context: { topK: 1, header: "Memories:", template: "* {content}" },
+    });
+    await memori.config.storage.build();
+    await memori.addMemories(["I like tea", "I play chess"]);
+
+    const context = await memori.retrieveContext("hobbies");
+    expect(context.split("\n")).toHaveLength(2);
+    expect(context.startsWith("Memories:\n* ")).toBe(true);
+    expect(memori.stats.lastRun?.contextChunks).toBe(1);
+  });
+});
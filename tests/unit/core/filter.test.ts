@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { evaluateFilter } from "../../../src/core/filter";
+import { FilterError } from "../../../src/core/errors";
+import { MetadataFilter } from "../../../src/core/types";
+import { SqliteVecStore } from "../../../src/stores/sqlite";
+
+const memories = [
+  { content: "A", metadata: { topic: "billing", priority: 5, pinned: true } },
+  { content: "B", metadata: { topic: "billing", priority: 1 } },
+  { content: "C", metadata: { topic: "support", priority: "high" } },
+  { content: "D", metadata: { topic: "support", source: { app: "web" } } },
+];
+
+// The same expressions must give the same answer in memory and in SQL
+const cases: [string, MetadataFilter, string[]][] = [
+  ["bare equality", { topic: "billing" }, ["A", "B"]],
+  ["$in", { topic: { $in: ["support", "sales"] } }, ["C", "D"]],
+  ["numeric range", { priority: { $gt: 1, $lte: 5 } }, ["A"]],
+  ["$lt ignores strings", { priority: { $lt: 10 } }, ["A", "B"]],
+  ["$exists", { pinned: { $exists: true } }, ["A"]],
+  ["$exists false", { priority: { $exists: false } }, ["D"]],
+  ["boolean equality", { pinned: true }, ["A"]],
+  ["nested keys", { "source.app": "web" }, ["D"]],
+  ["$ne keeps missing keys", { pinned: { $ne: true } }, ["B", "C", "D"]],
+  [
+    "$or",
+    { $or: [{ priority: { $gte: 5 } }, { "source.app": "web" }] },
+    ["A", "D"],
+  ],
+  ["$not keeps missing keys", { $not: { priority: 1 } }, ["A", "C", "D"]],
+  ["$and", { $and: [{ topic: "billing" }, { $not: { pinned: true } }] }, ["B"]],
+  ["standard fields", { role: "user", topic: "support" }, ["C", "D"]],
+  [
+    "created_at",
+    { created_at: { $gt: "2000-01-01T00:00:00Z" } },
+    ["A", "B", "C", "D"],
+  ],
+];
+
+describe("Metadata filter evaluator", () => {
+  for (const [name, filter, expected] of cases) {
+    it(`should evaluate ${name}`, () => {
+      const matched = memories
+        .filter((m) =>
+          evaluateFilter(
+            { ...m.metadata, role: "user", created_at: "2024-05-01 10:00:00" },
+            filter
+          )
+        )
+        .map((m) => m.content);
+      expect(matched).toEqual(expected);
+    });
+  }
+
+  it("should reject unknown operators", () => {
+    expect(() => evaluateFilter({}, { topic: { $regex: "x" } as any })).toThrow(
+      FilterError
+    );
+    expect(() => evaluateFilter({}, { $nor: [] } as any)).toThrow(FilterError);
+  });
+});
+
+describe("Metadata filters in SqliteVecStore", () => {
+  let store: SqliteVecStore;
+  const vec = new Array(768).fill(0.1);
+
+  beforeEach(async () => {
+    store = new SqliteVecStore(":memory:");
+    await store.init();
+    for (const m of memories) {
+      await store.insert(m.content, vec, { role: "user", ...m.metadata });
+    }
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  for (const [name, filter, expected] of cases) {
+    it(`should compile ${name}`, async () => {
+      const page = await store.list({ metadata: filter });
+      expect(page.items.map((m) => m.content)).toEqual(expected);
+    });
+  }
+
+  it("should apply metadata filters to search and count", async () => {
+    const results = await store.search(vec, 10, {
+      metadata: { topic: "billing" },
+    });
+    expect(results.map((r) => r.content).sort()).toEqual(["A", "B"]);
+    expect(await store.count({ metadata: { pinned: true } })).toBe(1);
+  });
+
+  it("should reject unsafe field names", async () => {
+    await expect(
+      store.list({ metadata: { "a') OR 1=1 --": 1 } })
+    ).rejects.toThrow(FilterError);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { GenerateContentResponse } from "@google/genai";
+import { Memori } from "../../../src/core/memory";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+// Streamed chunks are SDK responses, which read their text through a getter
+function chunk(text: string) {
+  const response = new GenerateContentResponse();
+  response.candidates = [{ content: { role: "model", parts: [{ text }] } }];
+  return response;
+}
+
+// Minimal stand-in for the @google/genai client: chats delegate to `models`, like the SDK
+function mockClient(requests: any[]) {
+  const models = {
+    generateContentStream: async (args: any) => {
+      requests.push(args);
+      return (async function* () {
+        yield chunk("Hi ");
+        yield chunk("John");
+      })();
+    },
+    generateContent: async (args: any) => {
+      requests.push(args);
+      return {
+        candidates: [
+          {
+            content: {
+              role: "model",
+              parts: [{ text: "Hi" }, { text: "John" }],
+            },
+          },
+        ],
+      };
+    },
+  };
+  return {
+    models,
+    chats: {
+      create: (params: any) => {
+        const history: any[] = [];
+        return {
+          getHistory: () => history,
+          async sendMessage({ message, config }: any) {
+            const input = { role: "user", parts: [{ text: message }] };
+            const response = await models.generateContent({
+              model: params.model,
+              contents: [...history, input],
+              config: config ?? params.config,
+            });
+            history.push(input, response.candidates[0].content);
+            return response;
+          },
+          async sendMessageStream({ message, config }: any) {
+            const input = { role: "user", parts: [{ text: message }] };
+            const stream = await models.generateContentStream({
+              model: params.model,
+              contents: [...history, input],
+              config: config ?? params.config,
+            });
+            return (async function* () {
+              const parts: any[] = [];
+              for await (const response of stream) {
+                parts.push(...response.candidates![0].content!.parts!);
+                yield response;
+              }
+              history.push(input, { role: "model", parts });
+            })();
+          },
+        };
+      },
+    },
+  };
+}
+
+describe("Google GenAI patch", () => {
+  let memori: Memori;
+  let client: any;
+  let requests: any[];
+
+  beforeEach(async () => {
+    memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new MockEmbedding(),
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+    await memori.addMemory("The user's name is John");
+    await memori.augmentation.wait();
+
+    requests = [];
+    client = mockClient(requests);
+    memori.llm.register(client, "google");
+  });
+
+  const contents = async () =>
+    (await memori.listMemories({})).items
+      .slice(1)
+      .map((m) => [m.metadata?.role, m.content]);
+
+  it("should search with all parts and leave the caller's request unchanged", async () => {
+    const longText = "x".repeat(600);
+    const args = {
+      model: "gemini-2.0-flash",
+      contents: [
+        { role: "user", parts: [{ text: "Who am I?" }, { text: longText }] },
+      ],
+      config: { systemInstruction: "Be brief.", temperature: 0 },
+    };
+    await client.models.generateContent(args);
+
+    expect(memori.stats.lastRun?.usedQuery).toBe(`Who am I?\n${longText}`);
+    expect(args.config).toEqual({
+      systemInstruction: "Be brief.",
+      temperature: 0,
+    });
+    expect(requests[0].config.systemInstruction).toContain("Be brief.");
+    expect(requests[0].config.systemInstruction).toContain(
+      "The user's name is John"
+    );
+    expect(requests[0].config.temperature).toBe(0);
+
+    await memori.augmentation.wait();
+    expect(await contents()).toEqual([
+      ["user", `Who am I?\n${longText}`],
+      ["assistant", "Hi\nJohn"],
+    ]);
+  });
+
+  it("should accept string contents", async () => {
+    await client.models.generateContent({
+      model: "gemini-2.0-flash",
+      contents: "What is my name?",
+    });
+
+    expect(memori.stats.lastRun?.usedQuery).toBe("What is my name?");
+    expect(requests[0].config.systemInstruction.parts[0].text).toContain(
+      "The user's name is John"
+    );
+  });
+
+  it("should inject memory into chat sessions and save each turn once", async () => {
+    const config = { systemInstruction: { parts: [{ text: "Be brief." }] } };
+    const chat = client.chats.create({ model: "gemini-2.0-flash", config });
+    await chat.sendMessage({ message: "What is my name?" });
+    await chat.sendMessage({ message: "And my job?" });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].contents).toHaveLength(3);
+    expect(requests[1].config.systemInstruction.parts).toHaveLength(2);
+    expect(requests[1].config.systemInstruction.parts[1].text).toContain(
+      "The user's name is John"
+    );
+    expect(config.systemInstruction.parts).toHaveLength(1);
+
+    await memori.augmentation.wait();
+    expect(await contents()).toEqual([
+      ["user", "What is my name?"],
+      ["assistant", "Hi\nJohn"],
+      ["user", "And my job?"],
+      ["assistant", "Hi\nJohn"],
+    ]);
+  });
+
+  it("should save streamed responses once the stream completes", async () => {
+    const stream = await client.models.generateContentStream({
+      model: "gemini-2.0-flash",
+      contents: "What is my name?",
+    });
+    expect(requests[0].config.systemInstruction.parts[0].text).toContain(
+      "The user's name is John"
+    );
+
+    const received: string[] = [];
+    for await (const response of stream) {
+      received.push(response.text);
+    }
+    expect(received).toEqual(["Hi ", "John"]);
+
+    await memori.augmentation.wait();
+    expect(await contents()).toEqual([
+      ["user", "What is my name?"],
+      ["assistant", "Hi John"],
+    ]);
+  });
+
+  it("should inject memory into streamed chat messages and save each turn once", async () => {
+    const chat = client.chats.create({ model: "gemini-2.0-flash" });
+    for (const message of ["What is my name?", "And my job?"]) {
+      const stream = await chat.sendMessageStream({ message });
+      for await (const response of stream) {
+      }
+    }
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].contents).toHaveLength(3);
+    expect(requests[1].config.systemInstruction.parts[0].text).toContain(
+      "The user's name is John"
+    );
+
+    await memori.augmentation.wait();
+    expect(await contents()).toEqual([
+      ["user", "What is my name?"],
+      ["assistant", "Hi John"],
+      ["user", "And my job?"],
+      ["assistant", "Hi John"],
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { reciprocalRankFusion } from "../../../src/core/hybrid";
+import { EmbeddingProvider, MemoryResult } from "../../../src/core/types";
+
+const result = (id: string): MemoryResult => ({
+  id,
+  content: `memory ${id}`,
+  embedding: [],
+  metadata: null,
+  distance: 0,
+});
+
+// Embeds every text to the same vector, so only lexical matching can tell memories apart
+class ConstantEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [1, 0, 0];
+  }
+}
+
+describe("Reciprocal Rank Fusion", () => {
+  it("should favour results ranked well in several lists", () => {
+    const fused = reciprocalRankFusion([
+      { results: [result("a"), result("b"), result("c")] },
+      { results: [result("b"), result("c")] },
+    ]);
+
+    expect(fused.map((r) => r.id)).toEqual(["b", "c", "a"]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it("should apply list weights", () => {
+    const fused = reciprocalRankFusion([
+      { results: [result("a"), result("b")], weight: 0.1 },
+      { results: [result("b"), result("a")], weight: 1 },
+    ]);
+
+    expect(fused[0].id).toBe("b");
+  });
+});
+
+describe("Hybrid search", () => {
+  it("should surface exact term matches that vectors cannot distinguish", async () => {
+    const memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new ConstantEmbedding(),
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+
+    for (let i = 0; i < 10; i++) {
+      await memori.addMemory(`Small talk number ${i}`);
+    }
+    await memori.addMemory("My account id is ACC-77812");
+
+    const results = await memori.search("ACC-77812", 3, { mode: "hybrid" });
+
+    expect(results[0].content).toBe("My account id is ACC-77812");
+    expect(results[0].score).toBeGreaterThan(0);
+  });
+});
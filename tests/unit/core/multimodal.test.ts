@@ -0,0 +1,169 @@
+import { describe, it, expect } from "bun:test";
+import { createHash } from "crypto";
+import { Memori } from "../../../src/core/memory";
+import { CallbackMultimodalExtractor } from "../../../src/core/multimodal";
+import {
+  EmbeddingProvider,
+  MediaPart,
+  MultimodalExtractor,
+} from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+async function createMemori(multimodal?: boolean | MultimodalExtractor) {
+  const memori = new Memori({
+    dbPath: ":memory:",
+    embedding: new MockEmbedding(),
+    embeddingDimension: 3,
+    multimodal,
+  });
+  await memori.config.storage.build();
+  return memori;
+}
+
+async function memories(memori: Memori) {
+  await memori.augmentation.wait();
+  return (await memori.listMemories({})).items.filter(
+    (m) => m.metadata?.role === "user"
+  );
+}
+
+describe("Multimodal memory", () => {
+  it("should caption OpenAI images and search with the text parts", async () => {
+    const seen: MediaPart[] = [];
+    const memori = await createMemori(
+      new CallbackMultimodalExtractor({
+        caption: async (part) => {
+          seen.push(part);
+          return "A receipt from a bakery.";
+        },
+        ocr: async () => "TOTAL 4.20 EUR",
+      })
+    );
+    const client = {
+      chat: {
+        completions: {
+          create: async (body: any) => ({
+            choices: [{ message: { content: "4.20 EUR" } }],
+          }),
+        },
+      },
+    };
+    memori.llm.register(client, "openai");
+
+    await client.chat.completions.create({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "How much did I pay?" },
+            {
+              type: "image_url",
+              image_url: { url: "data:image/png;base64,aGVsbG8=" },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(memori.stats.lastRun?.usedQuery).toBe("How much did I pay?");
+    expect(seen).toEqual([
+      { kind: "image", mimeType: "image/png", data: "aGVsbG8=" },
+    ]);
+
+    const saved = await memories(memori);
+    expect(saved.map((m) => m.content).sort()).toEqual([
+      "How much did I pay?",
+      "[Image (image/png)] A receipt from a bakery.\nText: TOTAL 4.20 EUR",
+    ]);
+    const image = saved.find((m) => m.metadata?.media_kind);
+    expect(image?.metadata).toMatchObject({
+      media_kind: "image",
+      media_mime_type: "image/png",
+      media_hash: createHash("sha256").update("aGVsbG8=").digest("hex"),
+    });
+  });
+
+  it("should fall back to a text placeholder with a media reference", async () => {
+    const memori = await createMemori(true);
+    const client = {
+      messages: { create: async (body: any) => ({ content: [] }) },
+    };
+    memori.llm.register(client, "anthropic");
+
+    await client.messages.create({
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "image",
+              source: { type: "url", url: "https://example.com/cat.jpg" },
+            },
+          ],
+        },
+      ],
+    });
+
+    const saved = await memories(memori);
+    expect(saved.map((m) => m.content)).toEqual(["[Image]"]);
+    expect(saved[0].metadata?.media_url).toBe("https://example.com/cat.jpg");
+  });
+
+  it("should capture Google inline data and skip failed extractions", async () => {
+    const memori = await createMemori({
+      extract: async (part) => {
+        if (part.kind === "audio") throw new Error("unsupported");
+        return `Document ${part.name}`;
+      },
+    });
+    const client = {
+      models: { generateContent: async (args: any) => ({ text: "OK" }) },
+    };
+    memori.llm.register(client, "google");
+
+    await client.models.generateContent({
+      model: "gemini-2.0-flash",
+      contents: [
+        { text: "Summarize" },
+        {
+          inlineData: {
+            mimeType: "application/pdf",
+            data: "JVBERi0=",
+            displayName: "report.pdf",
+          },
+        },
+        { inlineData: { mimeType: "audio/wav", data: "UklGRg==" } },
+      ],
+    });
+
+    const saved = await memories(memori);
+    expect(saved.map((m) => m.content).sort()).toEqual([
+      "Document report.pdf",
+      "Summarize",
+    ]);
+  });
+
+  it("should ignore media unless enabled", async () => {
+    const memori = await createMemori();
+    const client = {
+      messages: { create: async (body: any) => ({ content: [] }) },
+    };
+    memori.llm.register(client, "anthropic");
+    await client.messages.create({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "image", source: { type: "base64", data: "aGVsbG8=" } },
+          ],
+        },
+      ],
+    });
+    expect(await memories(memori)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { existsSync, unlinkSync } from "fs";
+import { Memori } from "../../../src/core/memory";
+import { SqliteVecStore } from "../../../src/stores/sqlite";
+import { EmbeddingMismatchError } from "../../../src/core/errors";
+import { EmbeddingProvider, VectorStore } from "../../../src/core/types";
+
+const path = "/tmp/memori-reembed-test.db";
+
+// Deterministic vectors: the first component encodes the text length
+class ShortEmbedding implements EmbeddingProvider {
+  readonly model = "short-1";
+  async embed(text: string) {
+    return [text.length / 100, 0.5, 0.5];
+  }
+}
+
+class LongEmbedding implements EmbeddingProvider {
+  readonly model = "long-1";
+  public embedded: string[] = [];
+  async embed(text: string) {
+    this.embedded.push(text);
+    return [text.length / 100, 0.1, 0.2, 0.3];
+  }
+}
+
+async function seed(): Promise<Memori> {
+  const memori = new Memori({
+    dbPath: path,
+    embedding: new ShortEmbedding(),
+    embeddingDimension: 3,
+  });
+  await memori.config.storage.build();
+  await memori.addMemories(
+    ["I like tea", "My cat is named Miso", "I live in Lisbon"].map(
+      (content) => ({ content })
+    )
+  );
+  return memori;
+}
+
+describe("Embedding model changes", () => {
+  afterEach(() => {
+    for (const file of [path, `${path}-wal`, `${path}-shm`]) {
+      if (existsSync(file)) unlinkSync(file);
+    }
+  });
+
+  it("should record the embedding model on init", async () => {
+    await seed();
+    const store = new SqliteVecStore(path, undefined, 3);
+    await store.init();
+    expect(await store.getEmbeddingInfo()).toEqual({
+      provider: "ShortEmbedding",
+      model: "short-1",
+      dimension: 3,
+    });
+    await store.close();
+  });
+
+  it("should refuse another provider for existing memories", async () => {
+    await seed();
+    const memori = new Memori({
+      dbPath: path,
+      embedding: new LongEmbedding(),
+      embeddingDimension: 3,
+    });
+    const error = await memori.config.storage.build().catch((e) => e);
+    expect(error).toBeInstanceOf(EmbeddingMismatchError);
+    expect(error.stored.model).toBe("short-1");
+    expect(error.configured.model).toBe("long-1");
+  });
+
+  it("should reject inserts and searches on a mismatched default store", async () => {
+    await seed();
+    // No build(): the check runs in the background and fails the first call
+    const memori = new Memori({
+      dbPath: path,
+      embedding: new LongEmbedding(),
+      embeddingDimension: 3,
+    });
+    await expect(memori.addMemory("I like coffee")).rejects.toThrow(
+      EmbeddingMismatchError
+    );
+    await expect(memori.search("tea")).rejects.toThrow(EmbeddingMismatchError);
+  });
+
+  it("should tell custom providers apart by name and dimension", async () => {
+    const provider = (name: string) => ({
+      name,
+      embed: async (text: string) => [text.length / 100, 0.5, 0.5],
+    });
+    const first = new Memori({
+      dbPath: path,
+      embedding: provider("acme"),
+      embeddingDimension: 3,
+    });
+    await first.config.storage.build();
+    await first.addMemory("I like tea");
+
+    const other = new Memori({
+      dbPath: path,
+      embedding: provider("other"),
+      embeddingDimension: 3,
+    });
+    const error = await other.config.storage.build().catch((e) => e);
+    expect(error).toBeInstanceOf(EmbeddingMismatchError);
+    expect(error.stored.provider).toBe("acme");
+
+    const store = {
+      init: async () => {},
+      count: async () => 1,
+      getEmbeddingInfo: async () => ({
+        provider: "acme",
+        model: null,
+        dimension: 3,
+      }),
+      setEmbeddingInfo: async () => {},
+    } as unknown as VectorStore;
+    const wider = new Memori({
+      vectorStore: store,
+      embedding: provider("acme"),
+      embeddingDimension: 4,
+    });
+    await expect(wider.config.storage.build()).rejects.toThrow(
+      EmbeddingMismatchError
+    );
+  });
+
+  it("should refuse a vector table of another dimension", async () => {
+    await seed();
+    const store = new SqliteVecStore(path, undefined, 4);
+    await expect(store.init()).rejects.toThrow(EmbeddingMismatchError);
+    await store.close();
+  });
+
+  it("should re-embed memories and switch providers", async () => {
+    const memori = await seed();
+    const provider = new LongEmbedding();
+    const progress: number[] = [];
+
+    const report = await memori.reembed({
+      provider,
+      batchSize: 2,
+      onProgress: (completed, total) => {
+        progress.push(completed);
+        expect(total).toBe(3);
+      },
+    });
+
+    expect(report.reembedded).toBe(3);
+    expect(report.info).toEqual({
+      provider: "LongEmbedding",
+      model: "long-1",
+      dimension: 4,
+    });
+    expect(progress).toEqual([2, 3]);
+
+    // New memories and queries use the new provider
+    await memori.addMemory("I drink coffee");
+    const results = await memori.search("My cat is named Miso", 1);
+    expect(results[0].content).toBe("My cat is named Miso");
+
+    // The store now expects the new model
+    const reopened = new Memori({
+      dbPath: path,
+      embedding: new LongEmbedding(),
+      embeddingDimension: 4,
+    });
+    await reopened.config.storage.build();
+    expect(await reopened.countMemories({})).toBe(4);
+  });
+
+  it("should build again after re-embedding to another dimension", async () => {
+    const memori = await seed();
+    await memori.reembed({ provider: new LongEmbedding() });
+
+    await memori.config.storage.build();
+    await memori.addMemory("I drink coffee");
+    expect(await memori.countMemories({})).toBe(4);
+  });
+
+  it("should resume an interrupted job", async () => {
+    const memori = await seed();
+
+    class FlakyEmbedding extends LongEmbedding {
+      public failing = true;
+      async embed(text: string) {
+        if (this.failing && text.includes("Lisbon")) {
+          throw new Error("Rate limited");
+        }
+        return super.embed(text);
+      }
+    }
+    const provider = new FlakyEmbedding();
+    await expect(
+      memori.reembed({ provider, dimension: 4, batchSize: 1 })
+    ).rejects.toThrow("Rate limited");
+
+    // The vectors already written are kept
+    provider.failing = false;
+    provider.embedded = [];
+    const report = await memori.reembed({ provider, dimension: 4 });
+    expect(report.reembedded).toBe(1);
+    expect(provider.embedded).toEqual(["I live in Lisbon"]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { rerank } from "../../../src/core/rerank";
+import { EmbeddingProvider, MemoryResult } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+const DAY = 24 * 3600 * 1000;
+const now = Date.parse("2025-01-31T00:00:00Z");
+
+function result(
+  id: string,
+  similarity: number,
+  metadata: Record<string, any>
+): MemoryResult {
+  return { id, content: id, embedding: [], metadata, distance: 0, similarity };
+}
+
+describe("rerank", () => {
+  it("should combine the components into a weighted average", () => {
+    const [top] = rerank(
+      [
+        result("1", 0.8, {
+          created_at: "2025-01-01 00:00:00",
+          importance: 1,
+          accessCount: 5,
+        }),
+      ],
+      { halfLife: 30 * DAY },
+      now
+    );
+    expect(top.scoreBreakdown).toEqual({
+      similarity: 0.8,
+      recency: 0.5,
+      importance: 1,
+      access: 0.5,
+      score: 0.6 * 0.8 + 0.2 * 0.5 + 0.1 * 1 + 0.1 * 0.5,
+    });
+    expect(top.score).toBe(top.scoreBreakdown!.score);
+  });
+
+  it("should let a recent memory outrank a slightly closer stale one", () => {
+    const ranked = rerank(
+      [
+        result("stale", 0.9, { created_at: "2024-01-31T00:00:00Z" }),
+        result("recent", 0.85, { created_at: "2025-01-30T00:00:00Z" }),
+      ],
+      {},
+      now
+    );
+    expect(ranked.map((r) => r.id)).toEqual(["recent", "stale"]);
+
+    const bySimilarity = rerank(ranked, { recencyWeight: 0 }, now);
+    expect(bySimilarity.map((r) => r.id)).toEqual(["stale", "recent"]);
+  });
+});
+
+describe("Memori search reranking", () => {
+  async function createMemori() {
+    const memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new MockEmbedding(),
+      embeddingDimension: 3,
+      rerank: { halfLife: 7 * DAY },
+    });
+    await memori.config.storage.build();
+    await memori.addMemories([
+      {
+        content: "I am vegan",
+        metadata: { created_at: "2020-01-01T00:00:00Z" },
+      },
+      { content: "I eat fish now" },
+    ]);
+    return memori;
+  }
+
+  it("should rank by recency and report score breakdowns", async () => {
+    const memori = await createMemori();
+    const results = await memori.search("diet", 2);
+    expect(results.map((r) => r.content)).toEqual([
+      "I eat fish now",
+      "I am vegan",
+    ]);
+    expect(results[0].scoreBreakdown!.recency).toBeGreaterThan(0.99);
+    expect(results[1].scoreBreakdown!.recency).toBeLessThan(0.01);
+
+    const plain = await memori.search("diet", 2, { rerank: false });
+    expect(plain[0].scoreBreakdown).toBeUndefined();
+
+    // Access tracking is opt-in
+    await memori.augmentation.wait();
+    const stored = await memori.getMemory(results[0].id);
+    expect(stored!.metadata!.accessCount).toBeUndefined();
+  });
+
+  it("should count accesses of returned memories", async () => {
+    const memori = await createMemori();
+    const options = { rerank: { trackAccess: true } };
+    const [first] = await memori.search("diet", 1, options);
+    await memori.search("diet", 1, options);
+    await memori.augmentation.wait();
+
+    const stored = await memori.getMemory(first.id);
+    expect(stored!.metadata!.accessCount).toBe(2);
+    expect(stored!.metadata!.lastAccessedAt).toBeDefined();
+  });
+});
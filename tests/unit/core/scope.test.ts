@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("Request-scoped attribution", () => {
+  let memori: Memori;
+
+  beforeEach(async () => {
+    memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new MockEmbedding(),
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+  });
+
+  it("should keep concurrent scopes isolated", async () => {
+    const request = (entityId: string, delay: number) =>
+      memori.withScope({ entityId }, async () => {
+        await sleep(delay);
+        return memori.addMemory(`Memory of ${entityId}`);
+      });
+
+    await Promise.all([request("alice", 20), request("bob", 0)]);
+
+    const alice = await memori.listMemories({ entityId: "alice" });
+    const bob = await memori.listMemories({ entityId: "bob" });
+    expect(alice.items.map((m) => m.content)).toEqual(["Memory of alice"]);
+    expect(bob.items.map((m) => m.content)).toEqual(["Memory of bob"]);
+  });
+
+  it("should scope searches and inherit fields from outer scopes", async () => {
+    await memori.addMemory("Alice likes tea", "user", {
+      entityId: "alice",
+      sessionId: "s1",
+    });
+    await memori.addMemory("Bob likes coffee", "user", { entityId: "bob" });
+
+    const results = await memori.withScope({ entityId: "alice" }, () =>
+      memori.withScope({ sessionId: "s1" }, async () => {
+        expect(memori.getScope()).toEqual({
+          entityId: "alice",
+          processId: undefined,
+          sessionId: "s1",
+        });
+        return memori.search("What do I like?");
+      })
+    );
+
+    expect(results.map((r) => r.content)).toEqual(["Alice likes tea"]);
+  });
+
+  it("should take precedence over the instance attribution", async () => {
+    memori.attribution("global-user", "agent");
+
+    await memori.withScope({ entityId: "scoped-user" }, () =>
+      memori.addMemory("Scoped")
+    );
+    await memori.addMemory("Global");
+
+    const scoped = await memori.listMemories({ entityId: "scoped-user" });
+    expect(scoped.items[0].metadata?.processId).toBe("agent");
+    expect(await memori.countMemories({ entityId: "global-user" })).toBe(1);
+  });
+
+  it("should attribute auto-saved memories of patched clients", async () => {
+    const client = {
+      chat: {
+        completions: {
+          create: async (body: any) => {
+            await sleep(body.messages[0].content === "alice" ? 20 : 0);
+            return { choices: [{ message: { content: "ok" } }] };
+          },
+        },
+      },
+    };
+    memori.llm.register(client, "openai");
+
+    const chat = (entityId: string) =>
+      memori.withScope({ entityId }, () =>
+        client.chat.completions.create({
+          messages: [{ role: "user", content: entityId }],
+        })
+      );
+    await Promise.all([chat("alice"), chat("bob")]);
+    await memori.augmentation.wait();
+
+    const alice = await memori.listMemories({ entityId: "alice" });
+    expect(alice.items.map((m) => m.content).sort()).toEqual(["alice", "ok"]);
+  });
+});
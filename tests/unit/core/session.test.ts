@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+// Embeds texts by their first letter, so distances are predictable
+class LetterEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    const vec = [0, 0, 0];
+    vec[text.charCodeAt(0) % 3] = 1;
+    return vec;
+  }
+}
+
+describe("Session attribution", () => {
+  let memori: Memori;
+
+  beforeEach(async () => {
+    memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new LetterEmbedding(),
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+  });
+
+  it("should store the attributed session on new memories", async () => {
+    memori.attribution("user-1", "agent-1", "session-1");
+    const id = await memori.addMemory("Hello");
+
+    const memory = await memori.getMemory(id);
+    expect(memory?.metadata?.entityId).toBe("user-1");
+    expect(memory?.metadata?.sessionId).toBe("session-1");
+  });
+
+  it("should let addMemory and search override the attribution", async () => {
+    memori.attribution("user-1", "agent-1", "session-1");
+    await memori.addMemory("Other user", "user", { entityId: "user-2" });
+
+    expect(await memori.search("Other user")).toEqual([]);
+    const results = await memori.search("Other user", 5, {
+      scope: { entityId: "user-2" },
+      session: { mode: "entity" },
+    });
+    expect(results.map((r) => r.content)).toEqual(["Other user"]);
+  });
+
+  it("should restrict results to the current session in session mode", async () => {
+    await memori.addMemory("Apple from session 1", "user", {
+      entityId: "user-1",
+      sessionId: "session-1",
+    });
+    await memori.addMemory("Apple from session 2", "user", {
+      entityId: "user-1",
+      sessionId: "session-2",
+    });
+
+    memori.attribution("user-1", "", "session-2");
+    const results = await memori.search("Apple", 5, {
+      session: { mode: "session" },
+    });
+    expect(results.map((r) => r.content)).toEqual(["Apple from session 2"]);
+  });
+
+  it("should blend current and other sessions using quotas", async () => {
+    for (let i = 0; i < 3; i++) {
+      await memori.addMemory(`Apple current ${i}`, "user", {
+        entityId: "user-1",
+        sessionId: "current",
+      });
+      await memori.addMemory(`Apple past ${i}`, "user", {
+        entityId: "user-1",
+        sessionId: "past",
+      });
+    }
+
+    memori.attribution("user-1", "", "current");
+    const results = await memori.search("Apple", 4, {
+      session: { currentSessionQuota: 1, otherSessionsQuota: 3 },
+    });
+
+    const sessions = results.map((r) => r.metadata?.sessionId);
+    expect(sessions.filter((s) => s === "current").length).toBe(1);
+    expect(sessions.filter((s) => s === "past").length).toBe(3);
+  });
+
+  it("should back-fill unused quota from the other side", async () => {
+    await memori.addMemory("Apple current", "user", {
+      entityId: "user-1",
+      sessionId: "current",
+    });
+    for (let i = 0; i < 3; i++) {
+      await memori.addMemory(`Apple past ${i}`, "user", {
+        entityId: "user-1",
+        sessionId: "past",
+      });
+    }
+
+    memori.attribution("user-1", "", "current");
+    const results = await memori.search("Apple", 4);
+    expect(results.length).toBe(4);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { distanceToSimilarity } from "../../../src/core/similarity";
+import { Memori } from "../../../src/core/memory";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+class TableEmbedding implements EmbeddingProvider {
+  private vectors: Record<string, number[]> = {
+    apple: [1, 0, 0],
+    "apple pie": [0.8, 0.6, 0],
+    car: [0, 0, 1],
+  };
+
+  async embed(text: string): Promise<number[]> {
+    return this.vectors[text] || [0, 1, 0];
+  }
+}
+
+describe("distanceToSimilarity", () => {
+  it("should map each metric to [0, 1]", () => {
+    expect(distanceToSimilarity(0, "cosine")).toBe(1);
+    expect(distanceToSimilarity(2, "cosine")).toBe(0);
+    expect(distanceToSimilarity(Math.SQRT2, "l2")).toBeCloseTo(0.5);
+    expect(distanceToSimilarity(10, "l2")).toBe(0);
+    expect(distanceToSimilarity(-1, "inner_product")).toBe(1);
+    expect(distanceToSimilarity(null, "cosine")).toBe(0);
+  });
+});
+
+describe("Memori minSimilarity", () => {
+  let memori: Memori;
+
+  beforeEach(async () => {
+    memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new TableEmbedding(),
+      embeddingDimension: 3,
+      distanceMetric: "cosine",
+    });
+    await memori.config.storage.build();
+    await memori.addMemory("apple pie");
+    await memori.addMemory("car");
+  });
+
+  it("should drop results below the threshold", async () => {
+    expect((await memori.search("apple")).length).toBe(2);
+
+    const results = await memori.search("apple", 5, { minSimilarity: 0.7 });
+    expect(results.map((r) => r.content)).toEqual(["apple pie"]);
+    expect(results[0].similarity).toBeCloseTo(0.9);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Stream } from "openai/streaming";
+import { Memori } from "../../../src/core/memory";
+import { createMemoriProxy } from "../../../src/core/proxy";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return new Array(768).fill(0.1);
+  }
+}
+
+// Minimal stand-in for the OpenAI SDK Stream: an async iterable with extra properties
+function mockStream(deltas: string[]) {
+  return {
+    controller: new AbortController(),
+    async *[Symbol.asyncIterator]() {
+      for (const content of deltas) {
+        yield { choices: [{ index: 0, delta: { content } }] };
+      }
+    },
+  };
+}
+
+describe("Streaming auto-save", () => {
+  let memori: Memori;
+  let client: any;
+
+  beforeEach(async () => {
+    memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new MockEmbedding(),
+    });
+    await memori.config.storage.build();
+
+    client = {
+      chat: {
+        completions: {
+          create: async (body: any) =>
+            body.stream
+              ? mockStream(["Hello", ", ", "world"])
+              : { choices: [{ message: { content: "Hello, world" } }] },
+        },
+      },
+    };
+    memori.llm.register(client, "openai");
+  });
+
+  it("should pass chunks through and save memories when the stream completes", async () => {
+    const stream = await client.chat.completions.create({
+      model: "gpt-4",
+      stream: true,
+      messages: [{ role: "user", content: "Say hello" }],
+    });
+
+    const received: string[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk.choices[0].delta.content);
+    }
+    expect(received).toEqual(["Hello", ", ", "world"]);
+    expect(stream.controller).toBeInstanceOf(AbortController);
+
+    await memori.augmentation.wait();
+    const page = await memori.listMemories({});
+    expect(page.items.map((m) => [m.metadata?.role, m.content])).toEqual([
+      ["user", "Say hello"],
+      ["assistant", "Hello, world"],
+    ]);
+  });
+
+  it("should not save anything when the consumer stops early", async () => {
+    const stream = await client.chat.completions.create({
+      model: "gpt-4",
+      stream: true,
+      messages: [{ role: "user", content: "Say hello" }],
+    });
+
+    for await (const chunk of stream) {
+      break;
+    }
+
+    await memori.augmentation.wait();
+    expect(await memori.countMemories({})).toBe(0);
+  });
+
+  it("should save once when an SDK stream is split with tee()", async () => {
+    client.chat.completions.create = async () =>
+      new Stream(async function* () {
+        for (const content of ["Hello", ", ", "world"]) {
+          yield { choices: [{ index: 0, delta: { content } }] };
+        }
+      }, new AbortController());
+    memori.llm.register(client, "openai");
+
+    const stream = await client.chat.completions.create({
+      model: "gpt-4",
+      stream: true,
+      messages: [{ role: "user", content: "Say hello" }],
+    });
+    const [left, right] = stream.tee();
+    const read = async (branch: AsyncIterable<any>) => {
+      let text = "";
+      for await (const chunk of branch) text += chunk.choices[0].delta.content;
+      return text;
+    };
+    expect(await read(left)).toBe("Hello, world");
+    expect(await read(right)).toBe("Hello, world");
+
+    await memori.augmentation.wait();
+    const page = await memori.listMemories({});
+    expect(page.items.map((m) => m.content)).toEqual([
+      "Say hello",
+      "Hello, world",
+    ]);
+  });
+
+  it("should track the saves of proxied streams", async () => {
+    const proxied: any = createMemoriProxy(
+      {
+        chat: {
+          completions: { create: async () => mockStream(["Hi", " there"]) },
+        },
+      } as any,
+      memori
+    );
+    const stream = await proxied.chat.completions.create({
+      model: "gpt-4",
+      stream: true,
+      messages: [{ role: "user", content: "Greet me" }],
+    });
+    for await (const chunk of stream) {
+    }
+
+    await memori.augmentation.wait();
+    const page = await memori.listMemories({});
+    expect(page.items.map((m) => m.content).sort()).toEqual([
+      "Greet me",
+      "Hi there",
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { EmbeddingProvider, ToolMemoryOptions } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+async function createMemori(toolMemory?: boolean | ToolMemoryOptions) {
+  const memori = new Memori({
+    dbPath: ":memory:",
+    embedding: new MockEmbedding(),
+    embeddingDimension: 3,
+    toolMemory,
+  });
+  await memori.config.storage.build();
+  return memori;
+}
+
+async function toolMemories(memori: Memori) {
+  await memori.augmentation.wait();
+  return (await memori.listMemories({})).items.filter(
+    (m) => m.metadata?.role === "tool"
+  );
+}
+
+const openAIMessages = [
+  { role: "user", content: "What's the weather in Paris?" },
+  {
+    role: "assistant",
+    content: null,
+    tool_calls: [
+      {
+        id: "call_1",
+        type: "function",
+        function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+      },
+      {
+        id: "call_2",
+        type: "function",
+        function: { name: "read_secrets", arguments: "{}" },
+      },
+    ],
+  },
+  { role: "tool", tool_call_id: "call_1", content: '{"temp":21}' },
+  { role: "tool", tool_call_id: "call_2", content: "hunter2" },
+];
+
+describe("Tool call capture", () => {
+  let openai: any;
+
+  beforeEach(() => {
+    openai = {
+      chat: {
+        completions: {
+          create: async () => ({
+            choices: [{ message: { content: "It is 21°C in Paris." } }],
+          }),
+        },
+      },
+    };
+  });
+
+  it("should store OpenAI tool calls with their results", async () => {
+    const memori = await createMemori({ deny: ["read_secrets"] });
+    memori.llm.register(openai, "openai");
+    await openai.chat.completions.create({ messages: openAIMessages });
+
+    const tools = await toolMemories(memori);
+    expect(tools).toHaveLength(1);
+    expect(tools[0].content).toBe(
+      'Called tool get_weather({"city":"Paris"}). Result: {"temp":21}'
+    );
+    expect(tools[0].metadata).toMatchObject({
+      role: "tool",
+      tool_name: "get_weather",
+      tool_arguments: '{"city":"Paris"}',
+      tool_call_id: "call_1",
+    });
+
+    // The user message was saved with the turn that sent it, not again during the tool loop
+    const roles = (await memori.listMemories({})).items.map(
+      (m) => m.metadata?.role
+    );
+    expect(roles.sort()).toEqual(["assistant", "tool"]);
+  });
+
+  it("should be disabled by default", async () => {
+    const memori = await createMemori();
+    memori.llm.register(openai, "openai");
+    await openai.chat.completions.create({ messages: openAIMessages });
+    expect(await toolMemories(memori)).toHaveLength(0);
+  });
+
+  it("should apply the allow list and truncate large results", async () => {
+    const memori = await createMemori({ allow: ["lookup"], maxLength: 10 });
+    const anthropic = {
+      messages: { create: async (body: any) => ({ content: [] }) },
+    };
+    memori.llm.register(anthropic, "anthropic");
+    await anthropic.messages.create({
+      messages: [
+        { role: "user", content: "Find my order" },
+        {
+          role: "assistant",
+          content: [
+            { type: "tool_use", id: "tu_1", name: "lookup", input: { id: 7 } },
+            { type: "tool_use", id: "tu_2", name: "search", input: {} },
+          ],
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: "tu_1",
+              content: [{ type: "text", text: "x".repeat(50) }],
+            },
+            { type: "tool_result", tool_use_id: "tu_2", content: "none" },
+          ],
+        },
+      ],
+    });
+
+    const tools = await toolMemories(memori);
+    expect(tools).toHaveLength(1);
+    expect(tools[0].content).toBe(
+      `Called tool lookup({"id":7}). Result: ${"x".repeat(10)}…`
+    );
+  });
+
+  it("should capture Google function responses", async () => {
+    const memori = await createMemori(true);
+    const google = {
+      models: {
+        generateContent: async (args: any) => ({ text: "21°C" }),
+      },
+    };
+    memori.llm.register(google, "google");
+    await google.models.generateContent({
+      model: "gemini-2.0-flash",
+      contents: [
+        { role: "user", parts: [{ text: "Weather in Paris?" }] },
+        {
+          role: "model",
+          parts: [
+            { functionCall: { name: "get_weather", args: { city: "Paris" } } },
+          ],
+        },
+        {
+          role: "user",
+          parts: [
+            {
+              functionResponse: {
+                name: "get_weather",
+                response: { temp: 21 },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    const tools = await toolMemories(memori);
+    expect(tools.map((m) => m.content)).toEqual([
+      'Called tool get_weather({"city":"Paris"}). Result: {"temp":21}',
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { ConfigurationError } from "../../../src/core/errors";
+import { EmbeddingProvider, VectorStore } from "../../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+const HOUR = 3600 * 1000;
+const past = new Date(Date.now() - HOUR).toISOString();
+
+async function createMemori(options: Record<string, unknown> = {}) {
+  const memori = new Memori({
+    dbPath: ":memory:",
+    embedding: new MockEmbedding(),
+    embeddingDimension: 3,
+    ...options,
+  });
+  await memori.config.storage.build();
+  return memori;
+}
+
+describe("Memory expiry", () => {
+  let memori: Memori | undefined;
+
+  afterEach(() => memori?.maintenance.stop());
+
+  it("should hide expired memories from search and listing", async () => {
+    memori = await createMemori();
+    await memori.addMemories([
+      { content: "Expired", metadata: { expiresAt: past } },
+      { content: "Kept" },
+    ]);
+
+    const results = await memori.search("anything", 10);
+    expect(results.map((r) => r.content)).toEqual(["Kept"]);
+    const page = await memori.listMemories({});
+    expect(page.items.map((m) => m.content)).toEqual(["Kept"]);
+  });
+
+  it("should apply the most specific TTL policy", async () => {
+    memori = await createMemori({
+      ttl: {
+        default: 24 * HOUR,
+        byRole: { tool: HOUR },
+        byEntity: { guest: 2 * HOUR },
+      },
+    });
+    const before = Date.now();
+    const [user, tool, guest, pinned] = await memori.addMemories([
+      { content: "User memory" },
+      { content: "Tool memory", role: "tool" },
+      { content: "Guest memory", role: "tool", scope: { entityId: "guest" } },
+      { content: "Pinned memory", metadata: { expiresAt: null } },
+    ]);
+
+    const lifetime = async (id: string) => {
+      const memory = await memori!.getMemory(id);
+      return Date.parse(memory!.metadata!.expiresAt!) - before;
+    };
+    expect(await lifetime(user)).toBeGreaterThanOrEqual(24 * HOUR);
+    expect(await lifetime(tool)).toBeLessThan(2 * HOUR);
+    expect(await lifetime(guest)).toBeGreaterThanOrEqual(2 * HOUR);
+    expect((await memori.getMemory(pinned))!.metadata!.expiresAt).toBeNull();
+  });
+
+  it("should prune expired memories and report the count", async () => {
+    memori = await createMemori();
+    await memori.addMemories([
+      { content: "Expired 1", metadata: { expiresAt: past } },
+      { content: "Expired 2", metadata: { expiresAt: past } },
+      { content: "Kept" },
+    ]);
+
+    const report = await memori.maintenance.prune();
+    expect(report.deleted).toBe(2);
+    expect((await memori.maintenance.prune()).deleted).toBe(0);
+  });
+
+  it("should require a store that supports pruning", async () => {
+    const store = { init: async () => {} } as unknown as VectorStore;
+    memori = new Memori({ embedding: new MockEmbedding(), vectorStore: store });
+    await expect(memori.maintenance.prune()).rejects.toThrow(
+      ConfigurationError
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "bun:test";
+import { Memori } from "../../../src/core/memory";
+import { ConfigurationError } from "../../../src/core/errors";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+// Statements about food share a direction, everything else is orthogonal
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return /vegetarian|meat/i.test(text) ? [1, 0, 0] : [0, 1, 0];
+  }
+}
+
+async function createMemori(options: Record<string, unknown>) {
+  const memori = new Memori({
+    dbPath: ":memory:",
+    embedding: new MockEmbedding(),
+    embeddingDimension: 3,
+    ...options,
+  });
+  await memori.config.storage.build();
+  return memori;
+}
+
+async function contents(memori: Memori) {
+  const page = await memori.listMemories({});
+  return page.items.map((m) => m.content);
+}
+
+describe("Write policy", () => {
+  it("should skip near-duplicates", async () => {
+    const memori = await createMemori({ writePolicy: { mode: "skip" } });
+    const first = await memori.addMemory("I'm vegetarian");
+    expect(await memori.addMemory("I am vegetarian")).toBe(first);
+    await memori.addMemory("I live in Lisbon");
+    // Another role is not a duplicate
+    await memori.addMemory("You are vegetarian", "assistant");
+
+    expect(await contents(memori)).toEqual([
+      "I'm vegetarian",
+      "I live in Lisbon",
+      "You are vegetarian",
+    ]);
+  });
+
+  it("should not treat other sessions as duplicates", async () => {
+    const memori = await createMemori({ writePolicy: { mode: "skip" } });
+    const first = await memori.withScope({ sessionId: "morning" }, () =>
+      memori.addMemory("I'm vegetarian")
+    );
+    const second = await memori.withScope({ sessionId: "evening" }, () =>
+      memori.addMemory("I am vegetarian")
+    );
+    expect(second).not.toBe(first);
+    expect(await contents(memori)).toEqual([
+      "I'm vegetarian",
+      "I am vegetarian",
+    ]);
+  });
+
+  it("should apply to bulk inserts", async () => {
+    const memori = await createMemori({ writePolicy: { mode: "skip" } });
+    const ids = await memori.addMemories([
+      "I'm vegetarian",
+      "I live in Lisbon",
+      "I am vegetarian",
+    ]);
+    expect(ids[2]).toBe(ids[0]);
+    expect(await contents(memori)).toEqual([
+      "I'm vegetarian",
+      "I live in Lisbon",
+    ]);
+  });
+
+  it("should merge into the existing memory", async () => {
+    const memori = await createMemori({ writePolicy: { mode: "merge" } });
+    const id = await memori.addMemories([
+      {
+        content: "I'm vegetarian",
+        metadata: { created_at: "2024-01-01T00:00:00Z" },
+      },
+    ]);
+    await Promise.all([
+      memori.addMemory("I'm vegetarian"),
+      memori.addMemory("I'm vegetarian"),
+    ]);
+
+    const memory = await memori.getMemory(id[0]);
+    expect(memory!.metadata!.hitCount).toBe(3);
+    expect(memory!.metadata!.created_at).not.toContain("2024");
+    expect(await contents(memori)).toEqual(["I'm vegetarian"]);
+  });
+
+  it("should consolidate with the LLM and link the superseded memories", async () => {
+    const prompts: string[] = [];
+    const memori = await createMemori({
+      writePolicy: { mode: "consolidate" },
+      llm: {
+        generate: async (prompt: string) => {
+          prompts.push(prompt);
+          return "The user is vegetarian but eats meat on holidays";
+        },
+      },
+    });
+    const old = await memori.addMemory("I'm vegetarian");
+    const id = await memori.addMemory("I eat meat on holidays");
+
+    expect(prompts[0]).toContain("- I eat meat on holidays\n- I'm vegetarian");
+    expect(await contents(memori)).toEqual([
+      "The user is vegetarian but eats meat on holidays",
+    ]);
+    const consolidated = await memori.getMemory(id);
+    expect(consolidated!.metadata!.supersedes).toEqual([old]);
+    expect(consolidated!.metadata!.hitCount).toBe(2);
+    const superseded = await memori.getMemory(old);
+    expect(superseded!.metadata!.supersededBy).toBe(id);
+  });
+
+  it("should require an LLM to consolidate", () => {
+    expect(
+      () =>
+        new Memori({
+          embedding: new MockEmbedding(),
+          writePolicy: { mode: "consolidate" },
+        })
+    ).toThrow(ConfigurationError);
+  });
+});
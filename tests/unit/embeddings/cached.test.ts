@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import {
+  CachedEmbeddingProvider,
+  MemoryEmbeddingCache,
+  SqliteEmbeddingCache,
+} from "../../../src/embeddings/cached";
+import { Memori } from "../../../src/core/memory";
+import { EmbeddingProvider } from "../../../src/core/types";
+
+// Counts the texts it is asked to embed
+class CountingEmbedding implements EmbeddingProvider {
+  public calls: string[] = [];
+  constructor(public model = "counting-v1") {}
+
+  async embed(text: string): Promise<number[]> {
+    this.calls.push(text);
+    return [text.length, 0.5, 0.25];
+  }
+}
+
+describe("CachedEmbeddingProvider", () => {
+  let provider: CountingEmbedding;
+
+  beforeEach(() => {
+    provider = new CountingEmbedding();
+  });
+
+  it("should embed each distinct text once and count hits and misses", async () => {
+    const cached = new CachedEmbeddingProvider(provider);
+
+    expect(await cached.embed("hello")).toEqual([5, 0.5, 0.25]);
+    expect(await cached.embed("hello")).toEqual([5, 0.5, 0.25]);
+    const batch = await cached.embedBatch(["hello", "hi", "hi"]);
+
+    expect(batch).toEqual([
+      [5, 0.5, 0.25],
+      [2, 0.5, 0.25],
+      [2, 0.5, 0.25],
+    ]);
+    expect(provider.calls).toEqual(["hello", "hi"]);
+    expect(cached.stats).toEqual({ hits: 2, misses: 2 });
+  });
+
+  it("should not share vectors between models or dimensions", async () => {
+    const cache = new MemoryEmbeddingCache();
+    const other = new CountingEmbedding("counting-v2");
+
+    await new CachedEmbeddingProvider(provider, { cache }).embed("hello");
+    await new CachedEmbeddingProvider(other, { cache }).embed("hello");
+    await new CachedEmbeddingProvider(other, {
+      cache,
+      dimension: 3,
+    }).embed("hello");
+
+    expect(provider.calls.length).toBe(1);
+    expect(other.calls.length).toBe(2);
+  });
+});
+
+describe("MemoryEmbeddingCache", () => {
+  it("should evict the least recently used entries", async () => {
+    const cache = new MemoryEmbeddingCache({ maxEntries: 2 });
+    await cache.set("a", [1]);
+    await cache.set("b", [2]);
+    await cache.get("a");
+    await cache.set("c", [3]);
+
+    expect(await cache.get("a")).toEqual([1]);
+    expect(await cache.get("b")).toBeNull();
+    expect(await cache.get("c")).toEqual([3]);
+  });
+
+  it("should expire entries after their TTL", async () => {
+    const cache = new MemoryEmbeddingCache({ ttlMs: 20 });
+    await cache.set("a", [1]);
+    expect(await cache.get("a")).toEqual([1]);
+
+    await Bun.sleep(30);
+    expect(await cache.get("a")).toBeNull();
+  });
+});
+
+describe("SqliteEmbeddingCache", () => {
+  let cache: SqliteEmbeddingCache;
+
+  beforeEach(() => {
+    cache = new SqliteEmbeddingCache(":memory:", { maxEntries: 2, ttlMs: 50 });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it("should round-trip vectors", async () => {
+    await cache.set("a", [0.5, -1, 2]);
+    expect(await cache.get("a")).toEqual([0.5, -1, 2]);
+    expect(await cache.get("missing")).toBeNull();
+  });
+
+  it("should evict the least recently used entries", async () => {
+    await cache.set("a", [1]);
+    await cache.set("b", [2]);
+    await cache.get("a");
+    await cache.set("c", [3]);
+
+    expect(await cache.get("b")).toBeNull();
+    expect(await cache.get("a")).toEqual([1]);
+    expect(await cache.get("c")).toEqual([3]);
+  });
+
+  it("should expire entries after their TTL", async () => {
+    await cache.set("a", [1]);
+    await Bun.sleep(60);
+    expect(await cache.get("a")).toBeNull();
+  });
+});
+
+describe("Memori embedding cache", () => {
+  it("should expose cache counters in stats", async () => {
+    const provider = new CountingEmbedding();
+    const memori = new Memori({
+      dbPath: ":memory:",
+      embedding: provider,
+      embeddingDimension: 3,
+      embeddingCache: true,
+    });
+    await memori.config.storage.build();
+
+    await memori.addMemory("Hello");
+    await memori.search("Hello");
+    await memori.search("Hello");
+
+    expect(provider.calls).toEqual(["Hello"]);
+    expect(memori.stats.embeddingCache).toEqual({ hits: 2, misses: 1 });
+  });
+});
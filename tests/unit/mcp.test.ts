@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Readable } from "stream";
+import { Memori } from "../../src/core/memory";
+import { EmbeddingProvider } from "../../src/core/types";
+import { MemoriMcpServer, serveStdio, McpMessage } from "../../src/mcp";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [text.length / 100, 0.2, 0.3];
+  }
+}
+
+describe("MemoriMcpServer", () => {
+  let memori: Memori;
+  let server: MemoriMcpServer;
+  let nextId = 1;
+
+  const request = async (method: string, params?: any) =>
+    (await server.handle({
+      jsonrpc: "2.0",
+      id: nextId++,
+      method,
+      params,
+    })) as McpMessage;
+
+  const callTool = async (name: string, args: any) =>
+    (await request("tools/call", { name, arguments: args })).result;
+
+  beforeEach(async () => {
+    memori = new Memori({
+      dbPath: ":memory:",
+      embedding: new MockEmbedding(),
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+    server = new MemoriMcpServer(memori, { scope: { entityId: "alice" } });
+  });
+
+  it("should negotiate the protocol and list the tools", async () => {
+    const init = await request("initialize", { protocolVersion: "2025-03-26" });
+    expect(init.result.protocolVersion).toBe("2025-03-26");
+    expect(init.result.capabilities).toEqual({ tools: {}, resources: {} });
+    const { version } = await Bun.file(
+      `${import.meta.dir}/../../package.json`
+    ).json();
+    expect(init.result.serverInfo).toEqual({ name: "memori", version });
+
+    expect(
+      await server.handle({
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      })
+    ).toBeNull();
+
+    const { tools } = (await request("tools/list")).result;
+    expect(tools.map((t: any) => t.name)).toEqual([
+      "memory_add",
+      "memory_search",
+      "memory_list",
+      "memory_delete",
+    ]);
+    expect(tools[0].inputSchema.required).toEqual(["content"]);
+  });
+
+  it("should add, list and search memories in the argument scope", async () => {
+    const added = await callTool("memory_add", { content: "I like tea" });
+    expect(added.isError).toBe(false);
+    await callTool("memory_add", { content: "I play chess", entityId: "bob" });
+
+    const alice = await callTool("memory_list", {});
+    expect(alice.structuredContent.memories).toHaveLength(1);
+    expect(alice.structuredContent.memories[0].id).toBe(
+      added.structuredContent.id
+    );
+
+    const bob = await callTool("memory_search", {
+      query: "chess",
+      entityId: "bob",
+    });
+    expect(bob.content[0].text).toContain("I play chess");
+    expect(bob.structuredContent.memories).toHaveLength(1);
+    expect(bob.structuredContent.memories[0].metadata.entityId).toBe("bob");
+  });
+
+  it("should ignore attribution keys in the metadata argument", async () => {
+    const added = await callTool("memory_add", {
+      content: "Planted",
+      metadata: { entityId: "mallory", processId: "other", topic: "x" },
+    });
+    const memory = await memori.getMemory(added.structuredContent.id);
+    expect(memory!.metadata).toMatchObject({ entityId: "alice", topic: "x" });
+    expect(memory!.metadata!.processId).not.toBe("other");
+  });
+
+  it("should only delete memories in scope", async () => {
+    const { structuredContent } = await callTool("memory_add", {
+      content: "I play chess",
+      entityId: "bob",
+    });
+
+    const denied = await callTool("memory_delete", {
+      id: structuredContent.id,
+    });
+    expect(denied.isError).toBe(true);
+    expect(await memori.getMemory(structuredContent.id)).not.toBeNull();
+
+    const deleted = await callTool("memory_delete", {
+      id: structuredContent.id,
+      entityId: "bob",
+    });
+    expect(deleted.isError).toBe(false);
+    expect(await memori.getMemory(structuredContent.id)).toBeNull();
+  });
+
+  it("should report invalid arguments as tool errors", async () => {
+    const result = await callTool("memory_search", { query: "" });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Invalid arguments");
+
+    const unknown = await request("tools/call", { name: "memory_nope" });
+    expect(unknown.error?.code).toBe(-32602);
+    expect((await request("memori/unknown")).error?.code).toBe(-32601);
+  });
+
+  it("should expose per-entity memory listings as resources", async () => {
+    await memori.addMemories([
+      { content: "I like tea", scope: { entityId: "alice" } },
+      { content: "I play chess", scope: { entityId: "bob" } },
+    ]);
+    server = new MemoriMcpServer(memori);
+
+    const { resources } = (await request("resources/list")).result;
+    expect(resources.map((r: any) => r.uri)).toEqual([
+      "memori://entities/alice/memories",
+      "memori://entities/bob/memories",
+    ]);
+
+    const { contents } = (
+      await request("resources/read", { uri: resources[1].uri })
+    ).result;
+    expect(JSON.parse(contents[0].text).map((m: any) => m.content)).toEqual([
+      "I play chess",
+    ]);
+    expect(
+      (await request("resources/read", { uri: "memori://nope" })).error?.code
+    ).toBe(-32002);
+  });
+
+  it("should serve newline-delimited JSON-RPC over stdio", async () => {
+    let output = "";
+    await serveStdio(
+      server,
+      Readable.from([
+        '{"jsonrpc":"2.0","id":1,"method":"ping"}\n',
+        '{"jsonrpc":"2.0","method":"notifications/initialized"}\nnot json\n',
+      ]),
+      { write: (chunk: string) => (output += chunk) }
+    );
+    const responses = output
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+    expect(responses).toEqual([
+      { jsonrpc: "2.0", id: 1, result: {} },
+      {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32700, message: "Parse error" },
+      },
+    ]);
+  });
+});
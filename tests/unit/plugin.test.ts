@@ -0,0 +1,360 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { Elysia } from "elysia";
+import { memoriPlugin } from "../../src/plugin";
+import { EmbeddingProvider } from "../../src/core/types";
+
+class MockEmbedding implements EmbeddingProvider {
+  async embed(text: string): Promise<number[]> {
+    return [0.1, 0.2, 0.3];
+  }
+}
+
+const options = {
+  dbPath: ":memory:",
+  embedding: new MockEmbedding(),
+  embeddingDimension: 3,
+};
+
+describe("memoriPlugin", () => {
+  it("should derive the request scope from headers", async () => {
+    const app = new Elysia()
+      .use(memoriPlugin(options))
+      .post("/remember", async ({ memori, withMemoriScope }) => {
+        await memori.config.storage.build();
+        const id = await withMemoriScope(() => memori.addMemory("Hi"));
+        return (await memori.getMemory(id))?.metadata;
+      });
+
+    const res = await app.handle(
+      new Request("http://localhost/remember", {
+        method: "POST",
+        headers: {
+          "x-memori-entity-id": "user-1",
+          "x-memori-session-id": "session-1",
+        },
+      })
+    );
+    const metadata = await res.json();
+
+    expect(metadata.entityId).toBe("user-1");
+    expect(metadata.sessionId).toBe("session-1");
+  });
+
+  it("should use a custom scope resolver", async () => {
+    const app = new Elysia()
+      .use(
+        memoriPlugin(options, {
+          resolveScope: ({ query }) => ({ entityId: query.user }),
+        })
+      )
+      .get("/scope", ({ memoriScope }) => memoriScope);
+
+    const res = await app.handle(new Request("http://localhost/scope?user=u9"));
+    expect(await res.json()).toEqual({ entityId: "u9" });
+  });
+});
+
+describe("memoriPlugin routes", () => {
+  const json = (method: string, body: unknown, headers = {}) => ({
+    method,
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+  const createApp = (pluginOptions = {}) =>
+    new Elysia().use(
+      memoriPlugin(options, {
+        routes: {
+          prefix: "/api",
+          authorize: ({ headers }) => headers.authorization === "Bearer token",
+        },
+        ...pluginOptions,
+      })
+    );
+  const request = (
+    app: ReturnType<typeof createApp>,
+    path: string,
+    init: RequestInit = {},
+    entityId = "user-1"
+  ) =>
+    app.handle(
+      new Request(`http://localhost/api${path}`, {
+        ...init,
+        headers: {
+          authorization: "Bearer token",
+          "x-memori-entity-id": entityId,
+          ...(init.headers as Record<string, string>),
+        },
+      })
+    );
+
+  it("should create, read, update and delete memories", async () => {
+    const app = createApp();
+    const created = await request(
+      app,
+      "/memories",
+      json("POST", { content: "I like tea", metadata: { topic: "food" } })
+    );
+    expect(created.status).toBe(201);
+    const memory = await created.json();
+    expect(memory.metadata.entityId).toBe("user-1");
+    expect(memory.metadata.topic).toBe("food");
+
+    const read = await request(app, `/memories/${memory.id}`);
+    expect((await read.json()).content).toBe("I like tea");
+
+    const updated = await request(
+      app,
+      `/memories/${memory.id}`,
+      json("PATCH", { content: "I like coffee" })
+    );
+    expect((await updated.json()).content).toBe("I like coffee");
+
+    const list = await request(app, "/memories?limit=10");
+    expect((await list.json()).items).toHaveLength(1);
+
+    const search = await request(
+      app,
+      "/memories/search",
+      json("POST", { query: "coffee", limit: 1 })
+    );
+    const [result] = await search.json();
+    expect(result.content).toBe("I like coffee");
+    expect(result.similarity).toBeGreaterThan(0);
+
+    const stats = await request(app, "/stats");
+    expect((await stats.json()).memories).toBe(1);
+
+    const deleted = await request(app, `/memories/${memory.id}`, {
+      method: "DELETE",
+    });
+    expect(deleted.status).toBe(204);
+    expect((await request(app, `/memories/${memory.id}`)).status).toBe(404);
+  });
+
+  it("should keep requests within their scope", async () => {
+    const app = createApp();
+    const created = await request(
+      app,
+      "/memories",
+      json("POST", { content: "Secret" })
+    );
+    const { id } = await created.json();
+
+    const other = await request(app, `/memories/${id}`, {}, "user-2");
+    expect(other.status).toBe(404);
+    const list = await request(app, "/memories?entityId=user-1", {}, "user-2");
+    expect(list.status).toBe(403);
+  });
+
+  it("should not let metadata write into another tenant", async () => {
+    const app = createApp();
+    const created = await request(
+      app,
+      "/memories",
+      json("POST", {
+        content: "Planted",
+        metadata: { entityId: "user-2", sessionId: "s-2", topic: "x" },
+      })
+    );
+    const memory = await created.json();
+    expect(memory.metadata.entityId).toBe("user-1");
+    expect(memory.metadata.sessionId).not.toBe("s-2");
+    expect(memory.metadata.topic).toBe("x");
+
+    const moved = await request(
+      app,
+      `/memories/${memory.id}`,
+      json("PATCH", { metadata: { entityId: "user-2", topic: "y" } })
+    );
+    expect((await moved.json()).metadata.entityId).toBe("user-1");
+
+    const victim = await request(app, "/memories?limit=10", {}, "user-2");
+    expect((await victim.json()).items).toHaveLength(0);
+
+    await request(app, "/memories/search", json("POST", { query: "secret" }));
+    const stats = await (await request(app, "/stats", {}, "user-2")).json();
+    expect(stats).toEqual({ memories: 0 });
+  });
+
+  it("should validate bodies and authorize requests", async () => {
+    const app = createApp();
+    const invalid = await request(
+      app,
+      "/memories/search",
+      json("POST", { query: "", limit: 0 })
+    );
+    expect(invalid.status).toBe(422);
+
+    const unauthorized = await app.handle(
+      new Request("http://localhost/api/stats")
+    );
+    expect(unauthorized.status).toBe(401);
+  });
+
+  it("should not expose routes unless enabled", async () => {
+    const app = new Elysia().use(memoriPlugin(options));
+    const res = await app.handle(new Request("http://localhost/stats"));
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("memoriPlugin gateway", () => {
+  // Fake OpenAI-compatible upstream, recording the requests it receives
+  const received: any[] = [];
+  let upstream: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    upstream = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json();
+        received.push({
+          body,
+          authorization: req.headers.get("authorization"),
+        });
+        if (body.model === "missing") {
+          return Response.json(
+            {
+              error: {
+                message: "Model not found",
+                type: "invalid_request_error",
+              },
+            },
+            { status: 404 }
+          );
+        }
+        if (!body.stream) {
+          return Response.json({
+            id: "chatcmpl-1",
+            object: "chat.completion",
+            created: 0,
+            model: body.model,
+            choices: [
+              {
+                index: 0,
+                message: { role: "assistant", content: "Hello Ada!" },
+                finish_reason: "stop",
+              },
+            ],
+          });
+        }
+        const chunk = (content: string) =>
+          `data: ${JSON.stringify({
+            id: "chatcmpl-2",
+            object: "chat.completion.chunk",
+            created: 0,
+            model: body.model,
+            choices: [{ index: 0, delta: { content }, finish_reason: null }],
+          })}\n\n`;
+        return new Response(
+          chunk("Hello ") + chunk("again") + "data: [DONE]\n\n",
+          {
+            headers: { "content-type": "text/event-stream" },
+          }
+        );
+      },
+    });
+  });
+
+  afterAll(() => upstream.stop(true));
+
+  const createApp = async () => {
+    const app = new Elysia().use(
+      memoriPlugin(options, {
+        gateway: { baseURL: `http://localhost:${upstream.port}/v1` },
+      })
+    );
+    await app.decorator.memori.config.storage.build();
+    return app;
+  };
+  const chat = (app: Awaited<ReturnType<typeof createApp>>, body: unknown) =>
+    app.handle(
+      new Request("http://localhost/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: "Bearer sk-client",
+          "x-memori-entity-id": "ada",
+        },
+        body: JSON.stringify(body),
+      })
+    );
+
+  it("should forward completions with memory context", async () => {
+    const app = await createApp();
+    const { memori } = app.decorator;
+    const first = await chat(app, {
+      model: "gpt-test",
+      messages: [{ role: "user", content: "My name is Ada" }],
+    });
+    expect((await first.json()).choices[0].message.content).toBe("Hello Ada!");
+    expect(received[0].authorization).toBe("Bearer sk-client");
+
+    // Stored in the background, then injected into the next request
+    for (let i = 0; i < 50 && (await memori.countMemories({})) < 2; i++) {
+      await Bun.sleep(10);
+    }
+    await chat(app, {
+      model: "gpt-test",
+      messages: [{ role: "user", content: "What is my name?" }],
+    });
+    const forwarded = received[received.length - 1].body.messages;
+    expect(forwarded[0].role).toBe("system");
+    expect(forwarded[0].content).toContain("My name is Ada");
+  });
+
+  it("should remember and recall array content messages", async () => {
+    const app = await createApp();
+    const { memori } = app.decorator;
+    await chat(app, {
+      model: "gpt-test",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "My cat is called Miso" },
+            { type: "image_url", image_url: { url: "https://x/cat.png" } },
+          ],
+        },
+      ],
+    });
+    await memori.augmentation.wait();
+
+    await chat(app, {
+      model: "gpt-test",
+      messages: [
+        { role: "user", content: [{ type: "text", text: "My cat?" }] },
+      ],
+    });
+    const forwarded = received[received.length - 1].body.messages;
+    expect(forwarded[0].role).toBe("system");
+    expect(forwarded[0].content).toContain("My cat is called Miso");
+  });
+
+  it("should stream server-sent events", async () => {
+    const res = await chat(await createApp(), {
+      model: "gpt-test",
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+    const events = (await res.text()).trim().split("\n\n");
+    expect(events[events.length - 1]).toBe("data: [DONE]");
+    const text = events
+      .slice(0, -1)
+      .map((e) => JSON.parse(e.slice("data: ".length)).choices[0].delta.content)
+      .join("");
+    expect(text).toBe("Hello again");
+  });
+
+  it("should pass upstream errors through", async () => {
+    const res = await chat(await createApp(), {
+      model: "missing",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.message).toBe("Model not found");
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { existsSync, unlinkSync } from "fs";
+import sqlite3 from "sqlite3";
+import { SqliteVecStore } from "../../../src/stores/sqlite";
+import { SchemaVersionError } from "../../../src/core/errors";
+import { Memori } from "../../../src/core/memory";
+import { Logger } from "../../../src/core/logger";
+
+const path = "/tmp/memori-migrations-test.db";
+
+function exec(sql: string): Promise<void> {
+  const db = new sqlite3.Database(path);
+  return new Promise((resolve, reject) =>
+    db.exec(sql, (err) => db.close(() => (err ? reject(err) : resolve())))
+  );
+}
+
+class RecordingLogger implements Logger {
+  lines: string[] = [];
+  debug(message: string) {
+    this.lines.push(message);
+  }
+  info(message: string) {
+    this.lines.push(message);
+  }
+  warn(message: string) {
+    this.lines.push(message);
+  }
+  error(message: string) {
+    this.lines.push(message);
+  }
+}
+
+describe("SqliteVecStore migrations", () => {
+  afterEach(() => {
+    for (const file of [path, `${path}-wal`, `${path}-shm`]) {
+      if (existsSync(file)) unlinkSync(file);
+    }
+  });
+
+  it("should record applied migrations and report none pending", async () => {
+    const store = new SqliteVecStore(path, undefined, 3);
+    await store.init();
+
+    const report = await store.migrate({ dryRun: true });
+    expect(report.migrations).toEqual([]);
+    expect(report.fromVersion).toBe(report.toVersion);
+    expect(report.fromVersion).toBeGreaterThanOrEqual(3);
+
+    // Running again is a no-op
+    expect((await store.migrate()).migrations).toEqual([]);
+    await store.close();
+  });
+
+  it("should upgrade a legacy database without metadata_json", async () => {
+    await exec(`
+      CREATE TABLE memories (
+        rowid INTEGER PRIMARY KEY AUTOINCREMENT,
+        content TEXT, role TEXT, entity_id TEXT, process_id TEXT, session_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO memories (content, role) VALUES ('Legacy memory', 'user');
+    `);
+
+    const store = new SqliteVecStore(path, undefined, 3);
+    const plan = await store.migrate({ dryRun: true });
+    expect(plan.fromVersion).toBe(0);
+    expect(plan.migrations.map((m) => m.version)).toEqual([1, 2, 3, 4, 5]);
+
+    await store.init();
+    await store.insert("New memory", [0.1, 0.2, 0.3], { topic: "x" });
+    const results = await store.lexicalSearch("legacy", [0.1, 0.2, 0.3], 5);
+    expect(results.map((r) => r.content)).toEqual(["Legacy memory"]);
+    await store.close();
+  });
+
+  it("should log upgrades once and stay quiet on new databases", async () => {
+    const logger = new RecordingLogger();
+    const fresh = new SqliteVecStore(":memory:", logger, 3);
+    await fresh.init();
+    await fresh.close();
+    expect(logger.lines).toEqual([]);
+
+    await exec(`
+      CREATE TABLE memories (
+        rowid INTEGER PRIMARY KEY AUTOINCREMENT,
+        content TEXT, role TEXT, entity_id TEXT, process_id TEXT, session_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    const legacy = new SqliteVecStore(path, logger, 3);
+    await legacy.init();
+    await legacy.close();
+    expect(logger.lines).toEqual([
+      "Migrated SQLite schema from version 0 to 5",
+    ]);
+  });
+
+  it("should refuse a database written by a newer schema version", async () => {
+    const store = new SqliteVecStore(path, undefined, 3);
+    await store.init();
+    await store.close();
+    await exec(
+      "INSERT INTO schema_migrations (version, description) VALUES (999, 'From the future')"
+    );
+
+    const newer = new SqliteVecStore(path, undefined, 3);
+    await expect(newer.init()).rejects.toThrow(SchemaVersionError);
+    await expect(newer.migrate({ dryRun: true })).rejects.toThrow(
+      SchemaVersionError
+    );
+    await newer.close();
+  });
+
+  it("should expose migrations through Memori.config.storage", async () => {
+    const memori = new Memori({
+      dbPath: path,
+      embedding: { embed: async () => [0.1, 0.2, 0.3] },
+      embeddingDimension: 3,
+    });
+    await memori.config.storage.build();
+
+    const report = await memori.config.storage.migrate({ dryRun: true });
+    expect(report.dryRun).toBe(true);
+    expect(report.migrations).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "bun:test";
+import { Pool } from "pg";
+import { PostgresVecStore } from "../../../src/stores/postgres";
+import { ConfigurationError } from "../../../src/core/errors";
+
+// Records queries instead of talking to a server
+class FakePool {
+  public queries: string[] = [];
+  public ended = false;
+
+  constructor(private existingDimension?: number) {}
+
+  async query(sql: string) {
+    this.queries.push(sql.replace(/\s+/g, " ").trim());
+    if (sql.includes("atttypmod")) {
+      return {
+        rows:
+          this.existingDimension === undefined
+            ? []
+            : [{ dimension: this.existingDimension }],
+      };
+    }
+    return { rows: [] };
+  }
+
+  async connect() {
+    return { query: (sql: string) => this.query(sql), release: () => {} };
+  }
+
+  async end() {
+    this.ended = true;
+  }
+}
+
+describe("PostgresVecStore options", () => {
+  it("should create the table and index from the options", async () => {
+    const pool = new FakePool();
+    const store = new PostgresVecStore(pool as unknown as Pool, {
+      schema: "ai",
+      dimension: 1536,
+      metric: "l2",
+      index: "ivfflat",
+      lists: 50,
+    });
+    await store.init();
+
+    const sql = pool.queries.join("\n");
+    expect(sql).toContain("CREATE SCHEMA IF NOT EXISTS ai");
+    expect(sql).toContain("CREATE TABLE IF NOT EXISTS ai.memories");
+    expect(sql).toContain("embedding vector(1536)");
+    expect(sql).toContain(
+      "CREATE INDEX IF NOT EXISTS memories_embedding_l2_ivfflat_idx ON ai.memories USING ivfflat (embedding vector_l2_ops) WITH (lists = 50)"
+    );
+  });
+
+  it("should skip the vector index when disabled", async () => {
+    const pool = new FakePool();
+    await new PostgresVecStore(pool as unknown as Pool, {
+      index: "none",
+    }).init();
+    expect(pool.queries.some((q) => q.includes("_embedding"))).toBe(false);
+  });
+
+  it("should refuse a table with another dimension", async () => {
+    const pool = new FakePool(768);
+    const store = new PostgresVecStore(pool as unknown as Pool, {
+      dimension: 1536,
+    });
+    await expect(store.init()).rejects.toThrow(ConfigurationError);
+  });
+
+  it("should set ef_search for each search query", async () => {
+    const pool = new FakePool();
+    const store = new PostgresVecStore(pool as unknown as Pool, {
+      efSearch: 80,
+    });
+    await store.search([0.1, 0.2], 5);
+
+    expect(pool.queries.slice(0, 2)).toEqual([
+      "BEGIN",
+      "SET LOCAL hnsw.ef_search = 80",
+    ]);
+    expect(pool.queries[pool.queries.length - 1]).toBe("COMMIT");
+  });
+
+  it("should exclude expired memories from reads", async () => {
+    const pool = new FakePool();
+    const store = new PostgresVecStore(pool as unknown as Pool);
+    await store.search([0.1, 0.2], 5);
+    expect(pool.queries.join("\n")).toContain(
+      "AND (expires_at IS NULL OR expires_at > now())"
+    );
+
+    pool.queries = [];
+    await store.list({ includeExpired: true });
+    expect(pool.queries[0]).not.toContain("expires_at");
+  });
+
+  it("should validate identifiers and settings", () => {
+    const pool = new FakePool() as unknown as Pool;
+    expect(
+      () => new PostgresVecStore(pool, { tableName: "memories; DROP" })
+    ).toThrow(ConfigurationError);
+    expect(() => new PostgresVecStore(pool, { m: 1.5 })).toThrow(
+      ConfigurationError
+    );
+  });
+
+  it("should add a column for re-embedded vectors", async () => {
+    const pool = new FakePool();
+    const store = new PostgresVecStore(pool as unknown as Pool);
+    await store.prepareReembed({
+      provider: "OpenAIEmbedding",
+      model: "text-embedding-3-small",
+      dimension: 1536,
+    });
+
+    const sql = pool.queries.join("\n");
+    expect(sql).toContain(
+      "ALTER TABLE memories ADD COLUMN IF NOT EXISTS embedding_next vector(1536)"
+    );
+    expect(sql).toContain("INSERT INTO memories_meta (key, value)");
+    expect(pool.queries[pool.queries.length - 1]).toBe("COMMIT");
+  });
+
+  it("should leave an external pool open", async () => {
+    const pool = new FakePool();
+    await new PostgresVecStore(pool as unknown as Pool).close();
+    expect(pool.ended).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { SqliteVecStore } from "../../../src/stores/sqlite";
+import { unlinkSync } from "fs";
 import { VectorStore } from "../../../src/core/types";
 
 describe("SqliteVecStore", () => {
@@ -90,4 +91,194 @@ describe("SqliteVecStore", () => {
     });
     expect(row).toBeUndefined();
   });
+
+  it("should get a memory with its embedding", async () => {
+    const vec = new Array(768).fill(0.25);
+    const id = await store.insert("Fetch me", vec, {
+      role: "assistant",
+      entityId: "user-1",
+      topic: "testing",
+    });
+
+    const record = await store.get(id);
+
+    expect(record).not.toBeNull();
+    expect(record!.content).toBe("Fetch me");
+    expect(record!.embedding.length).toBe(768);
+    expect(record!.embedding[0]).toBeCloseTo(0.25);
+    expect(record!.metadata?.entityId).toBe("user-1");
+    expect(record!.metadata?.topic).toBe("testing");
+
+    expect(await store.get("9999")).toBeNull();
+  });
+
+  it("should list memories page by page", async () => {
+    const vec = new Array(768).fill(0.1);
+    for (let i = 0; i < 5; i++) {
+      await store.insert(`Memory ${i}`, vec, { entityId: "user-1" });
+    }
+    await store.insert("Other entity", vec, { entityId: "user-2" });
+
+    const first = await store.list({ entityId: "user-1" }, null, 3);
+    expect(first.items.map((m) => m.content)).toEqual([
+      "Memory 0",
+      "Memory 1",
+      "Memory 2",
+    ]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await store.list(
+      { entityId: "user-1" },
+      first.nextCursor,
+      3
+    );
+    expect(second.items.map((m) => m.content)).toEqual([
+      "Memory 3",
+      "Memory 4",
+    ]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("should update content, embedding and metadata", async () => {
+    const vecA = new Array(768).fill(0);
+    vecA[0] = 1.0;
+    const vecB = new Array(768).fill(0);
+    vecB[1] = 1.0;
+    const id = await store.insert("Old content", vecA, {
+      role: "user",
+      topic: "old",
+    });
+
+    const updated = await store.update(id, {
+      content: "New content",
+      embedding: vecB,
+      metadata: { topic: "new", entityId: "user-9" },
+    });
+
+    expect(updated!.content).toBe("New content");
+    expect(updated!.metadata?.topic).toBe("new");
+    expect(updated!.metadata?.role).toBe("user");
+
+    // The new vector is searchable and the entity column was synced
+    const results = await store.search(vecB, 1, { entityId: "user-9" });
+    expect(results[0].id).toBe(id);
+    expect(results[0].distance).toBeLessThan(0.0001);
+
+    expect(await store.update("9999", { content: "x" })).toBeNull();
+  });
+
+  it("should keep concurrent metadata updates", async () => {
+    const id = await store.insert("Memory", new Array(768).fill(0.1), {});
+    await Promise.all([
+      store.update(id, { metadata: { a: 1 } }),
+      store.update(id, { metadata: { b: 2 } }),
+      store.delete("9999"),
+    ]);
+
+    const memory = await store.get(id);
+    expect(memory!.metadata).toMatchObject({ a: 1, b: 2 });
+  });
+
+  it("should insert while an update is in flight", async () => {
+    const id = await store.insert("Memory", new Array(768).fill(0.1), {});
+    const [, newId] = await Promise.all([
+      store.update(id, { content: "Updated memory" }),
+      store.insert("Another memory", new Array(768).fill(0.2), {}),
+    ]);
+
+    expect((await store.get(id))!.content).toBe("Updated memory");
+    expect((await store.get(newId))!.content).toBe("Another memory");
+  });
+
+  it("should count memories by filter", async () => {
+    const vec = new Array(768).fill(0.1);
+    await store.insert("A", vec, { entityId: "user-1" });
+    await store.insert("B", vec, { entityId: "user-1" });
+    await store.insert("C", vec, { entityId: "user-2" });
+
+    expect(await store.count()).toBe(3);
+    expect(await store.count({ entityId: "user-1" })).toBe(2);
+  });
+
+  it("should find exact terms with lexical search", async () => {
+    const vec = new Array(768).fill(0.1);
+    await store.insert("The deploy failed with error E-4021", vec, {
+      entityId: "user-1",
+    });
+    await store.insert("Deployments usually succeed", vec, {
+      entityId: "user-1",
+    });
+    const updatedId = await store.insert("Nothing relevant", vec, {
+      entityId: "user-1",
+    });
+    await store.update(updatedId, { content: "Ticket 4021 was reopened" });
+
+    const results = await store.lexicalSearch("what is E-4021?", vec, 5, {
+      entityId: "user-1",
+    });
+
+    expect(results.map((r) => r.content)).toEqual([
+      "The deploy failed with error E-4021",
+      "Ticket 4021 was reopened",
+    ]);
+    expect(results[0].distance).toBeLessThan(0.0001);
+    expect(await store.lexicalSearch("?!", vec, 5)).toEqual([]);
+  });
+
+  it("should insert many memories atomically", async () => {
+    const vec = new Array(768).fill(0.1);
+    const ids = await store.insertMany([
+      { content: "First", embedding: vec, metadata: { entityId: "user-1" } },
+      { content: "Second", embedding: vec },
+    ]);
+    expect(ids.length).toBe(2);
+    expect((await store.get(ids[1]))?.content).toBe("Second");
+
+    // A wrong dimension fails the whole batch
+    await expect(
+      store.insertMany([
+        { content: "Valid", embedding: vec },
+        { content: "Invalid", embedding: [0.1] },
+      ])
+    ).rejects.toThrow();
+    expect(await store.count()).toBe(2);
+  });
+});
+
+describe("SqliteVecStore distance metrics", () => {
+  const a = [1, 0, 0];
+  const b = [0.6, 0.8, 0];
+  const c = [0, 0, 1];
+
+  for (const metric of ["cosine", "l2", "inner_product"] as const) {
+    it(`should rank and normalize ${metric} distances`, async () => {
+      const store = new SqliteVecStore(":memory:", undefined, 3, metric);
+      await store.init();
+      await store.insert("C", c);
+      await store.insert("B", b);
+      await store.insert("A", a);
+
+      const results = await store.search(a, 3);
+      expect(results.map((r) => r.content)).toEqual(["A", "B", "C"]);
+      // Same similarities for unit vectors, whatever the metric
+      expect(results.map((r) => r.similarity!.toFixed(2))).toEqual([
+        "1.00",
+        "0.80",
+        "0.50",
+      ]);
+      await store.close();
+    });
+  }
+
+  it("should refuse a metric different from the existing table's", async () => {
+    const path = `/tmp/memori-metric-${Date.now()}.db`;
+    const store = new SqliteVecStore(path, undefined, 3, "cosine");
+    await store.init();
+    await store.close();
+
+    const other = new SqliteVecStore(path, undefined, 3, "l2");
+    await expect(other.init()).rejects.toThrow("'cosine' metric");
+    await other.close();
+    unlinkSync(path);
+  });
 });